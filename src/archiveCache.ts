@@ -0,0 +1,307 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import type {CrawlerCache, CrawlerCacheMetadata} from "./common.ts";
+import {DirectFileCache, type DirectFileCacheOptions, hashFile} from "./directFileCache.ts";
+import {getCacheFilePath} from "./cacheFilePath.ts";
+import {type ArchiveFormat, createArchiveWriter, readArchive} from "./archiveFormats.ts";
+
+export interface ArchiveCacheOptions extends Omit<DirectFileCacheOptions, "metadataDir"> {
+    /**
+     * The format of the archive.
+     * Default is deduced from the file name: "tar.gz" for ".tar.gz" and ".tgz", otherwise "zip".
+     */
+    format?: ArchiveFormat;
+
+    /**
+     * Where the metadata of the entries (ETag, Last-Modified) are stored.
+     * Default is the archive path + ".meta.json".
+     * They aren't stored inside the archive, which only contains the files of the website.
+     */
+    metadataPath?: string;
+}
+
+/**
+ * Where the metadata were stored inside the archives written by the previous versions.
+ */
+const LEGACY_METADATA_DIR = ".crawler-meta/";
+
+/**
+ * A cache writing the files inside a single ZIP or tar.gz archive,
+ * with the same layout as DirectFileCache.
+ *
+ * While crawling, the files are stored inside a staging dir, next to the archive.
+ * The archive is written once the crawling is finished, after the links have been fixed
+ * (see CrawlerCache.rewriteFile). The files are copied by chunks, and never fully loaded in memory.
+ *
+ * If the archive already exists, his entries are used for hasInCache
+ * and are copied inside the new archive, which allows incremental updates.
+ */
+export class ArchiveCache implements CrawlerCache {
+    public readonly archivePath: string;
+    public readonly format: ArchiveFormat;
+    public readonly metadataPath: string;
+
+    /**
+     * Where the files are stored until the archive is written.
+     * Is removed once the archive is written.
+     */
+    public readonly stagingDir: string;
+
+    private readonly options: ArchiveCacheOptions;
+    private readonly staging: DirectFileCache;
+
+    /**
+     * The content-type of the urls, once known.
+     */
+    private readonly contentTypes = new Map<string, string>();
+
+    /**
+     * The entries stored inside the staging dir.
+     */
+    private readonly stagedEntries = new Set<string>();
+
+    /**
+     * The entries of the previous archive.
+     */
+    private readonly previousEntries = new Set<string>();
+
+    /**
+     * The metadata of the urls, by entry name (without content-type).
+     */
+    private readonly metadataEntries = new Map<string, CrawlerCacheMetadata>();
+
+    private loading?: Promise<void>;
+
+    /**
+     * @param archivePath
+     *      The archive to write (ex: "./my-site.zip").
+     * @param options
+     *      Options about the file names and the archive format.
+     */
+    constructor(archivePath: string, options?: ArchiveCacheOptions) {
+        if (!path.isAbsolute(archivePath)) archivePath = path.resolve(process.cwd(), archivePath);
+        this.archivePath = archivePath;
+        this.options = options || {};
+
+        const lcPath = archivePath.toLowerCase();
+        this.format = this.options.format || ((lcPath.endsWith(".tar.gz") || lcPath.endsWith(".tgz")) ? "tar.gz" : "zip");
+        this.metadataPath = path.resolve(this.options.metadataPath || (archivePath + ".meta.json"));
+
+        this.stagingDir = archivePath + ".staging";
+
+        this.staging = new DirectFileCache(this.stagingDir, {
+            queryStringNaming: this.options.queryStringNaming,
+            mimeExtensions: this.options.mimeExtensions
+        });
+    }
+
+    /**
+     * While the crawling is running, the previous archive is renamed with this path.
+     */
+    get previousArchivePath(): string {
+        return this.archivePath + ".previous";
+    }
+
+    /**
+     * Returns the name of the entry inside the archive.
+     */
+    getKey(url: string): string {
+        return getCacheFilePath(url, this.contentTypes.get(url), this.options);
+    }
+
+    async hasInCache(url: string): Promise<boolean> {
+        // Allow knowing the content-type, and so the entry name.
+        if (!this.contentTypes.has(url)) await this.getMetadata(url);
+
+        const key = this.getKey(url);
+        return this.stagedEntries.has(key) || this.previousEntries.has(key);
+    }
+
+    async getMetadata(url: string): Promise<CrawlerCacheMetadata|undefined> {
+        await this.load();
+
+        const metadata = this.metadataEntries.get(this.getMetadataKey(url));
+        if (metadata && metadata.contentType) this.contentTypes.set(url, metadata.contentType);
+
+        return metadata;
+    }
+
+    async addToCache(url: string, response: Response, requestedByUrl: string, metadata?: CrawlerCacheMetadata): Promise<void> {
+        // We don't store 404 and others.
+        if (response.status !== 200) return;
+
+        await this.load();
+
+        const contentType = response.headers.get("content-type");
+        if (contentType) this.contentTypes.set(url, contentType);
+
+        await this.staging.addToCache(url, response, requestedByUrl);
+
+        const filePath = this.staging.getKey(url);
+        if (!await fileExists(filePath)) return;
+
+        this.stagedEntries.add(this.getKey(url));
+
+        if (metadata) {
+            metadata = {...metadata, contentHash: await hashFile(filePath)};
+            this.metadataEntries.set(this.getMetadataKey(url), metadata);
+        }
+    }
+
+    async addFile(filePath: string, content: string): Promise<void> {
+        const name = filePath.replace(/\\/g, "/");
+
+        // Avoid entries extracted outside of the target directory.
+        if (path.posix.isAbsolute(name) || name.split("/").includes("..")) {
+            throw new Error("Crawler - Invalid archive entry name: " + filePath);
+        }
+
+        await this.load();
+        await this.staging.addFile(name, content);
+        this.stagedEntries.add(name);
+    }
+
+    /**
+     * Allow modifying the content of a text file, before it's written inside the archive.
+     * Is used to fix the links once the real name of a file is known.
+     */
+    async rewriteFile(url: string, transform: (content: string) => string): Promise<void> {
+        await this.staging.rewriteFile(url, transform);
+    }
+
+    /**
+     * Write the archive: the files of the staging dir, then the entries
+     * of the previous archive which haven't been replaced. Then write the metadata file.
+     */
+    async close(): Promise<void> {
+        await this.load();
+
+        const writer = await createArchiveWriter(this.archivePath, this.format);
+
+        for (const name of this.stagedEntries) {
+            const filePath = path.join(this.stagingDir, name);
+            await writer.addFileEntry(name, filePath, (await fs.stat(filePath)).mtimeMs);
+        }
+
+        if (this.previousEntries.size) {
+            const entries = readArchive(this.previousArchivePath, this.format,
+                name => !this.stagedEntries.has(name) && !name.startsWith(LEGACY_METADATA_DIR));
+
+            for await (const entry of entries) {
+                if (entry.data) await writer.addEntry(entry.name, entry.data, entry.date);
+            }
+        }
+
+        await writer.finish();
+        await this.saveMetadata();
+        await fs.rm(this.previousArchivePath, {force: true});
+        await fs.rm(this.stagingDir, {recursive: true, force: true});
+
+        // Allow using this cache for another crawling.
+        this.loading = undefined;
+        this.stagedEntries.clear();
+        this.previousEntries.clear();
+        this.metadataEntries.clear();
+    }
+
+    private getMetadataKey(url: string): string {
+        // Doesn't depend on the content-type, which allows finding it before knowing the content-type.
+        return getCacheFilePath(url, undefined, this.options);
+    }
+
+    private async loadMetadata() {
+        try {
+            const json = JSON.parse(await fs.readFile(this.metadataPath, "utf-8")) as Record<string, CrawlerCacheMetadata>;
+            for (const key in json) this.metadataEntries.set(key, json[key]);
+        }
+        catch {
+            // No metadata file, or an invalid one.
+        }
+    }
+
+    private async saveMetadata() {
+        const json: Record<string, CrawlerCacheMetadata> = {};
+        this.metadataEntries.forEach((metadata, key) => json[key] = metadata);
+
+        // Written then renamed, which avoids a truncated file if the process is stopped.
+        const tmpPath = this.metadataPath + ".tmp";
+        await fs.mkdir(path.dirname(this.metadataPath), {recursive: true});
+        await fs.writeFile(tmpPath, JSON.stringify(json), "utf-8");
+        await fs.rename(tmpPath, this.metadataPath);
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) this.loading = this.doLoad();
+        return this.loading;
+    }
+
+    private async doLoad() {
+        await fs.mkdir(path.dirname(this.archivePath), {recursive: true});
+
+        // If the previous archive exists, then the last crawling has been interrupted.
+        if (!await fileExists(this.previousArchivePath) && await fileExists(this.archivePath)) {
+            await fs.rename(this.archivePath, this.previousArchivePath);
+        }
+
+        if (await fileExists(this.previousArchivePath)) {
+            // The metadata inside the archive are only read for the archives of the previous versions.
+            const entries = readArchive(this.previousArchivePath, this.format, name => name.startsWith(LEGACY_METADATA_DIR));
+
+            for await (const entry of entries) {
+                if (!entry.data) {
+                    this.previousEntries.add(entry.name);
+                    continue;
+                }
+
+                try {
+                    const key = entry.name.slice(LEGACY_METADATA_DIR.length, -".json".length);
+                    this.metadataEntries.set(key, JSON.parse(entry.data.toString("utf-8")));
+                }
+                catch {
+                    // Invalid metadata are ignored.
+                }
+            }
+        }
+
+        // The files of an interrupted crawling are kept.
+        for (const name of await listFiles(this.stagingDir)) {
+            this.stagedEntries.add(name);
+        }
+
+        await this.loadMetadata();
+    }
+}
+
+/**
+ * Returns the files inside this dir and his sub-dirs, with "/" as separator.
+ * Returns an empty list if the dir doesn't exist.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+    let names: string[];
+
+    try {
+        names = await fs.readdir(dir, {recursive: true});
+    }
+    catch {
+        return [];
+    }
+
+    const files: string[] = [];
+
+    for (const name of names) {
+        const stat = await fs.stat(path.join(dir, name));
+        if (stat.isFile()) files.push(name.split(path.sep).join("/"));
+    }
+
+    return files;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    }
+    catch {
+        return false;
+    }
+}
@@ -0,0 +1,91 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs/promises";
+import {afterAll, beforeAll, describe, expect, test} from "bun:test";
+import {type ArchiveEntry, type ArchiveFormat, createArchiveWriter, readArchive} from "./archiveFormats.ts";
+
+let tmpDir: string;
+
+beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jopi-crawler-archive-"));
+});
+
+afterAll(async () => {
+    await fs.rm(tmpDir, {recursive: true, force: true});
+});
+
+async function readAll(filePath: string, format: ArchiveFormat, mustLoadData: (name: string) => boolean = () => true): Promise<ArchiveEntry[]> {
+    const entries: ArchiveEntry[] = [];
+    for await (const entry of readArchive(filePath, format, mustLoadData)) entries.push(entry);
+    return entries;
+}
+
+const formats: ArchiveFormat[] = ["zip", "tar.gz"];
+
+for (const format of formats) {
+    describe("archive " + format, () => {
+        const date = new Date(2024, 4, 12, 10, 30, 20).getTime();
+        const longName = "docs/" + "a-very-long-directory-name/".repeat(6) + "index.html";
+
+        const written = [
+            {name: "index.html", data: Buffer.from("<html>home</html>", "utf-8")},
+            {name: "blog/café.html", data: Buffer.from("<html>café</html>", "utf-8")},
+            {name: "empty.txt", data: Buffer.alloc(0)},
+            {name: longName, data: Buffer.from("long", "utf-8")},
+            {name: "img/big.bin", data: Buffer.alloc(200 * 1024, 7)}
+        ];
+
+        const filePath = () => path.join(tmpDir, "site." + format);
+
+        beforeAll(async () => {
+            const writer = await createArchiveWriter(filePath(), format);
+            for (const entry of written) await writer.addEntry(entry.name, entry.data, date);
+            await writer.finish();
+        });
+
+        test("the entries are read back in order", async () => {
+            const entries = await readAll(filePath(), format);
+
+            expect(entries.map(e => e.name)).toEqual(written.map(e => e.name));
+
+            entries.forEach((entry, idx) => {
+                expect(entry.data!.equals(written[idx].data)).toBe(true);
+            });
+        });
+
+        test("the date is kept", async () => {
+            const entries = await readAll(filePath(), format);
+
+            // ZIP dates have a precision of 2 seconds.
+            entries.forEach(entry => expect(Math.abs(entry.date - date)).toBeLessThanOrEqual(2000));
+        });
+
+        test("the entries written from a file are read by chunks", async () => {
+            const sourcePath = path.join(tmpDir, "source-" + format + ".bin");
+            const content = Buffer.alloc(3 * 1024 * 1024 + 123);
+            for (let i = 0; i < content.length; i++) content[i] = (i * 7) % 251;
+            await fs.writeFile(sourcePath, content);
+
+            const archivePath = path.join(tmpDir, "from-file." + format);
+            const writer = await createArchiveWriter(archivePath, format);
+            await writer.addFileEntry("big.bin", sourcePath, date);
+            await writer.addEntry("small.txt", Buffer.from("small", "utf-8"), date);
+            await writer.addFileEntry(longName, sourcePath, date);
+            await writer.finish();
+
+            const entries = await readAll(archivePath, format);
+
+            expect(entries.map(e => e.name)).toEqual(["big.bin", "small.txt", longName]);
+            expect(entries[0].data!.equals(content)).toBe(true);
+            expect(entries[1].data!.toString("utf-8")).toBe("small");
+            expect(entries[2].data!.equals(content)).toBe(true);
+        });
+
+        test("only the content asked is loaded", async () => {
+            const entries = await readAll(filePath(), format, name => name.startsWith("blog/"));
+
+            expect(entries.length).toBe(written.length);
+            expect(entries.filter(e => e.data).map(e => e.name)).toEqual(["blog/café.html"]);
+        });
+    });
+}
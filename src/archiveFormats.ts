@@ -0,0 +1,603 @@
+import fs from "node:fs/promises";
+import {createReadStream, createWriteStream, type WriteStream} from "node:fs";
+import {once} from "node:events";
+import {finished} from "node:stream/promises";
+import {createDeflateRaw, createGunzip, createGzip, deflateRawSync, inflateRawSync, type Gzip} from "node:zlib";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+/**
+ * Allow writing the entries of an archive, one after the other.
+ */
+export interface ArchiveWriter {
+    addEntry(name: string, data: Buffer, date: number): Promise<void>;
+
+    /**
+     * Add the content of a file, which is read by chunks:
+     * the whole file is never loaded in memory.
+     */
+    addFileEntry(name: string, filePath: string, date: number): Promise<void>;
+
+    /**
+     * Write the end of the archive and close the file.
+     */
+    finish(): Promise<void>;
+}
+
+export interface ArchiveEntry {
+    name: string;
+    date: number;
+
+    /**
+     * Is undefined if the content hasn't been asked.
+     */
+    data?: Buffer;
+}
+
+export async function createArchiveWriter(filePath: string, format: ArchiveFormat): Promise<ArchiveWriter> {
+    if (format === "zip") return new ZipWriter(await fs.open(filePath, "w"));
+    return new TarGzWriter(filePath);
+}
+
+/**
+ * Read the entries of an archive.
+ *
+ * @param filePath
+ *      The archive.
+ * @param format
+ *      The format of the archive.
+ * @param mustLoadData
+ *      Returns true if the content of this entry must be loaded.
+ */
+export function readArchive(filePath: string, format: ArchiveFormat, mustLoadData: (name: string) => boolean): AsyncGenerator<ArchiveEntry> {
+    if (format === "zip") return readZipEntries(filePath, mustLoadData);
+    return readTarGzEntries(filePath, mustLoadData);
+}
+
+interface ZipCentralEntry {
+    name: Buffer;
+    flags: number;
+    method: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    dosTime: number;
+    dosDate: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END = 0x06054b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+const ZIP_UTF8_FLAG = 0x0800;
+
+/**
+ * The sizes and the crc are written after the content, in a data descriptor.
+ */
+const ZIP_HAS_DATA_DESCRIPTOR_FLAG = 0x0008;
+
+class ZipWriter implements ArchiveWriter {
+    private readonly entries: ZipCentralEntry[] = [];
+    private offset = 0;
+
+    constructor(private readonly file: fs.FileHandle) {
+    }
+
+    async addEntry(name: string, data: Buffer, date: number): Promise<void> {
+        const nameBuffer = Buffer.from(name, "utf-8");
+        const compressed = deflateRawSync(data);
+
+        // Images and fonts are already compressed.
+        const isDeflated = compressed.length < data.length;
+        const content = isDeflated ? compressed : data;
+        const dosDateTime = toDosDateTime(date);
+
+        const entry: ZipCentralEntry = {
+            name: nameBuffer,
+            flags: ZIP_UTF8_FLAG,
+            method: isDeflated ? 8 : 0,
+            crc: crc32(data),
+            compressedSize: content.length,
+            size: data.length,
+            offset: this.offset,
+            dosTime: dosDateTime.time,
+            dosDate: dosDateTime.date
+        };
+
+        const block = Buffer.concat([buildZipLocalHeader(entry), nameBuffer, content]);
+        await this.file.write(block);
+
+        this.offset += block.length;
+        this.entries.push(entry);
+    }
+
+    async addFileEntry(name: string, filePath: string, date: number): Promise<void> {
+        const nameBuffer = Buffer.from(name, "utf-8");
+        const dosDateTime = toDosDateTime(date);
+
+        // The sizes and the crc are only known once the content is written.
+        const entry: ZipCentralEntry = {
+            name: nameBuffer,
+            flags: ZIP_UTF8_FLAG | ZIP_HAS_DATA_DESCRIPTOR_FLAG,
+            method: 8,
+            crc: 0,
+            compressedSize: 0,
+            size: 0,
+            offset: this.offset,
+            dosTime: dosDateTime.time,
+            dosDate: dosDateTime.date
+        };
+
+        await this.write(Buffer.concat([buildZipLocalHeader(entry), nameBuffer]));
+
+        const deflate = createDeflateRaw();
+        const input = createReadStream(filePath);
+
+        input.on("data", chunk => {
+            entry.crc = crc32(chunk as Buffer, entry.crc);
+            entry.size += chunk.length;
+        });
+
+        input.on("error", e => deflate.destroy(e));
+        input.pipe(deflate);
+
+        for await (const chunk of deflate) {
+            entry.compressedSize += chunk.length;
+            await this.write(chunk as Buffer);
+        }
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        await this.write(descriptor);
+
+        this.entries.push(entry);
+    }
+
+    private async write(data: Buffer) {
+        await this.file.write(data);
+        this.offset += data.length;
+    }
+
+    async finish(): Promise<void> {
+        const centralOffset = this.offset;
+        const blocks: Buffer[] = [];
+
+        for (const entry of this.entries) {
+            // The offset doesn't fit in 32 bits: a ZIP64 extra field is used.
+            const isZip64 = entry.offset >= 0xFFFFFFFF;
+            const extra = Buffer.alloc(isZip64 ? 12 : 0);
+
+            if (isZip64) {
+                extra.writeUInt16LE(0x0001, 0);
+                extra.writeUInt16LE(8, 2);
+                extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+            }
+
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+            header.writeUInt16LE(45, 4);
+            header.writeUInt16LE(isZip64 ? 45 : 20, 6);
+            header.writeUInt16LE(entry.flags, 8);
+            header.writeUInt16LE(entry.method, 10);
+            header.writeUInt16LE(entry.dosTime, 12);
+            header.writeUInt16LE(entry.dosDate, 14);
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.compressedSize, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(entry.name.length, 28);
+            header.writeUInt16LE(extra.length, 30);
+            header.writeUInt32LE(isZip64 ? 0xFFFFFFFF : entry.offset, 42);
+
+            blocks.push(header, entry.name, extra);
+        }
+
+        const central = Buffer.concat(blocks);
+        const centralSize = central.length;
+        await this.file.write(central);
+
+        const count = this.entries.length;
+        const isZip64 = (count >= 0xFFFF) || (centralOffset >= 0xFFFFFFFF) || (centralSize >= 0xFFFFFFFF);
+
+        if (isZip64) {
+            const zip64EndOffset = centralOffset + centralSize;
+
+            const zip64End = Buffer.alloc(56);
+            zip64End.writeUInt32LE(ZIP64_END, 0);
+            zip64End.writeBigUInt64LE(44n, 4);
+            zip64End.writeUInt16LE(45, 12);
+            zip64End.writeUInt16LE(45, 14);
+            zip64End.writeBigUInt64LE(BigInt(count), 24);
+            zip64End.writeBigUInt64LE(BigInt(count), 32);
+            zip64End.writeBigUInt64LE(BigInt(centralSize), 40);
+            zip64End.writeBigUInt64LE(BigInt(centralOffset), 48);
+
+            const locator = Buffer.alloc(20);
+            locator.writeUInt32LE(ZIP64_LOCATOR, 0);
+            locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+            locator.writeUInt32LE(1, 16);
+
+            await this.file.write(Buffer.concat([zip64End, locator]));
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(ZIP_END, 0);
+        end.writeUInt16LE(Math.min(count, 0xFFFF), 8);
+        end.writeUInt16LE(Math.min(count, 0xFFFF), 10);
+        end.writeUInt32LE(Math.min(centralSize, 0xFFFFFFFF), 12);
+        end.writeUInt32LE(Math.min(centralOffset, 0xFFFFFFFF), 16);
+
+        await this.file.write(end);
+        await this.file.close();
+    }
+}
+
+function buildZipLocalHeader(entry: ZipCentralEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return header;
+}
+
+async function* readZipEntries(filePath: string, mustLoadData: (name: string) => boolean): AsyncGenerator<ArchiveEntry> {
+    const file = await fs.open(filePath, "r");
+
+    try {
+        const fileSize = (await file.stat()).size;
+
+        // The end record is at the end, followed by a comment of 64 KB max.
+        const tailSize = Math.min(fileSize, 22 + 0xFFFF);
+        const tail = await readAt(file, fileSize - tailSize, tailSize);
+
+        let endPos = -1;
+
+        for (let i = tail.length - 22; i >= 0; i--) {
+            if (tail.readUInt32LE(i) === ZIP_END) { endPos = i; break; }
+        }
+
+        if (endPos === -1) throw new Error("Not a ZIP file: " + filePath);
+
+        let count = tail.readUInt16LE(endPos + 10);
+        let centralSize = tail.readUInt32LE(endPos + 12);
+        let centralOffset = tail.readUInt32LE(endPos + 16);
+
+        const locatorPos = endPos - 20;
+
+        if ((locatorPos >= 0) && (tail.readUInt32LE(locatorPos) === ZIP64_LOCATOR)) {
+            const zip64End = await readAt(file, Number(tail.readBigUInt64LE(locatorPos + 8)), 56);
+
+            if (zip64End.readUInt32LE(0) === ZIP64_END) {
+                count = Number(zip64End.readBigUInt64LE(32));
+                centralSize = Number(zip64End.readBigUInt64LE(40));
+                centralOffset = Number(zip64End.readBigUInt64LE(48));
+            }
+        }
+
+        const central = await readAt(file, centralOffset, centralSize);
+        let pos = 0;
+
+        for (let i = 0; i < count; i++) {
+            if (central.readUInt32LE(pos) !== ZIP_CENTRAL_HEADER) break;
+
+            const method = central.readUInt16LE(pos + 10);
+            const dosTime = central.readUInt16LE(pos + 12);
+            const dosDate = central.readUInt16LE(pos + 14);
+            let compressedSize = central.readUInt32LE(pos + 20);
+            let size = central.readUInt32LE(pos + 24);
+            const nameLength = central.readUInt16LE(pos + 28);
+            const extraLength = central.readUInt16LE(pos + 30);
+            const commentLength = central.readUInt16LE(pos + 32);
+            let offset = central.readUInt32LE(pos + 42);
+
+            const name = central.toString("utf-8", pos + 46, pos + 46 + nameLength);
+
+            // The values which don't fit in 32 bits are inside the ZIP64 extra field, in this order.
+            let extraPos = pos + 46 + nameLength;
+            const extraEnd = extraPos + extraLength;
+
+            while (extraPos + 4 <= extraEnd) {
+                const id = central.readUInt16LE(extraPos);
+                const length = central.readUInt16LE(extraPos + 2);
+
+                if (id === 0x0001) {
+                    let p = extraPos + 4;
+                    if (size === 0xFFFFFFFF) { size = Number(central.readBigUInt64LE(p)); p += 8; }
+                    if (compressedSize === 0xFFFFFFFF) { compressedSize = Number(central.readBigUInt64LE(p)); p += 8; }
+                    if (offset === 0xFFFFFFFF) { offset = Number(central.readBigUInt64LE(p)); }
+                }
+
+                extraPos += 4 + length;
+            }
+
+            pos = extraEnd + commentLength;
+
+            if (name.endsWith("/")) continue;
+
+            const entry: ArchiveEntry = {name, date: fromDosDateTime(dosTime, dosDate)};
+
+            if (mustLoadData(name)) {
+                const localHeader = await readAt(file, offset, 30);
+                const dataStart = offset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+                const content = await readAt(file, dataStart, compressedSize);
+
+                if (method === 8) entry.data = inflateRawSync(content);
+                else if (method === 0) entry.data = content;
+                else throw new Error("Unsupported ZIP compression method: " + method);
+            }
+
+            yield entry;
+        }
+    }
+    finally {
+        await file.close();
+    }
+}
+
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    await file.read(buffer, 0, length, position);
+    return buffer;
+}
+
+function toDosDateTime(date: number): {time: number, date: number} {
+    const d = new Date(date);
+    const year = Math.max(d.getFullYear(), 1980);
+
+    return {
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+        date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+    };
+}
+
+function fromDosDateTime(time: number, date: number): number {
+    return new Date(((date >> 9) & 0x7F) + 1980, ((date >> 5) & 0xF) - 1, date & 0x1F,
+        (time >> 11) & 0x1F, (time >> 5) & 0x3F, (time & 0x1F) * 2).getTime();
+}
+
+let gCrcTable: Uint32Array|undefined;
+
+/**
+ * @param data
+ *      The data to add.
+ * @param crc
+ *      The crc of the previous data, which allows computing the crc by chunks.
+ */
+function crc32(data: Buffer, crc: number = 0): number {
+    if (!gCrcTable) {
+        gCrcTable = new Uint32Array(256);
+
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            gCrcTable[n] = c >>> 0;
+        }
+    }
+
+    crc = (crc ^ 0xFFFFFFFF) >>> 0;
+    for (let i = 0; i < data.length; i++) crc = gCrcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+class TarGzWriter implements ArchiveWriter {
+    private readonly gzip: Gzip;
+    private readonly output: WriteStream;
+
+    constructor(filePath: string) {
+        this.gzip = createGzip();
+        this.output = createWriteStream(filePath);
+        this.gzip.pipe(this.output);
+    }
+
+    async addEntry(name: string, data: Buffer, date: number): Promise<void> {
+        await this.writeHeader(name, data.length, date);
+        await this.writeContent(data);
+    }
+
+    async addFileEntry(name: string, filePath: string, date: number): Promise<void> {
+        const input = createReadStream(filePath);
+
+        try {
+            // The size is taken from the opened file, which avoids a header with a wrong size.
+            await once(input, "open");
+            const size = (await fs.stat(filePath)).size;
+
+            await this.writeHeader(name, size, date);
+            let written = 0;
+
+            for await (const chunk of input) {
+                const data = (chunk as Buffer).subarray(0, size - written);
+                written += data.length;
+                if (data.length) await this.write(data);
+            }
+
+            if (written < size) throw new Error("The file has been truncated: " + filePath);
+
+            const padding = (512 - (size % 512)) % 512;
+            if (padding) await this.write(Buffer.alloc(padding));
+        }
+        finally {
+            input.destroy();
+        }
+    }
+
+    private async writeHeader(name: string, size: number, date: number) {
+        // The names longer than 100 bytes are given by a PAX header.
+        if (Buffer.byteLength(name) > 100) {
+            const pax = Buffer.from(paxRecord("path", name), "utf-8");
+            await this.write(buildTarHeader("PaxHeader/" + name.substring(0, 80), pax.length, date, "x"));
+            await this.writeContent(pax);
+        }
+
+        await this.write(buildTarHeader(name, size, date, "0"));
+    }
+
+    async finish(): Promise<void> {
+        await this.write(Buffer.alloc(1024));
+        this.gzip.end();
+        await finished(this.output);
+    }
+
+    private async writeContent(data: Buffer) {
+        await this.write(data);
+
+        const padding = (512 - (data.length % 512)) % 512;
+        if (padding) await this.write(Buffer.alloc(padding));
+    }
+
+    private async write(data: Buffer) {
+        if (!this.gzip.write(data)) await once(this.gzip, "drain");
+    }
+}
+
+function buildTarHeader(name: string, size: number, date: number, type: string): Buffer {
+    const header = Buffer.alloc(512);
+
+    let nameBuffer = Buffer.from(name, "utf-8");
+    if (nameBuffer.length > 100) nameBuffer = nameBuffer.subarray(0, 100);
+    nameBuffer.copy(header, 0);
+
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, Math.floor(date / 1000), 136, 12);
+    header.fill(" ", 148, 156);
+    header.write(type, 156, 1, "ascii");
+    header.write("ustar\0", 257, 6, "ascii");
+    header.write("00", 263, 2, "ascii");
+
+    let checksum = 0;
+    for (let i = 0; i < 512; i++) checksum += header[i];
+    header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+
+    return header;
+}
+
+function writeOctal(buffer: Buffer, value: number, offset: number, length: number) {
+    buffer.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+/**
+ * Returns a PAX record: "<length> <key>=<value>\n",
+ * where the length includes itself.
+ */
+function paxRecord(key: string, value: string): string {
+    const content = " " + key + "=" + value + "\n";
+    const contentLength = Buffer.byteLength(content);
+
+    let length = contentLength + 1;
+    while (String(length).length + contentLength !== length) length++;
+
+    return length + content;
+}
+
+async function* readTarGzEntries(filePath: string, mustLoadData: (name: string) => boolean): AsyncGenerator<ArchiveEntry> {
+    const input = createReadStream(filePath).pipe(createGunzip());
+    const queue = new ByteQueue();
+
+    let current: {name: string, size: number, date: number, type: string}|undefined;
+    let longName: string|undefined;
+
+    for await (const chunk of input) {
+        queue.push(chunk as Buffer);
+
+        while (true) {
+            if (!current) {
+                if (queue.length < 512) break;
+                const header = queue.read(512);
+
+                // The end of the archive is two empty blocks.
+                if (header.every(b => b === 0)) continue;
+
+                current = parseTarHeader(header);
+            }
+
+            const paddedSize = Math.ceil(current.size / 512) * 512;
+            if (queue.length < paddedSize) break;
+
+            const data = queue.read(paddedSize).subarray(0, current.size);
+
+            if (current.type === "x") {
+                const match = data.toString("utf-8").match(/\d+ path=([^\n]*)\n/);
+                if (match) longName = match[1];
+            } else if (current.type === "L") {
+                longName = data.toString("utf-8").replace(/\0+$/, "");
+            } else if ((current.type === "0") || (current.type === "\0") || (current.type === "")) {
+                const name = longName ?? current.name;
+                longName = undefined;
+
+                yield {name, date: current.date, data: mustLoadData(name) ? Buffer.from(data) : undefined};
+            }
+
+            current = undefined;
+        }
+    }
+}
+
+function parseTarHeader(header: Buffer): {name: string, size: number, date: number, type: string} {
+    const readString = (offset: number, length: number) => {
+        const s = header.toString("utf-8", offset, offset + length);
+        const idx = s.indexOf("\0");
+        return idx === -1 ? s : s.substring(0, idx);
+    };
+
+    let name = readString(0, 100);
+    const prefix = readString(345, 155);
+    if (prefix) name = prefix + "/" + name;
+
+    return {
+        name,
+        size: parseInt(readString(124, 12).trim(), 8) || 0,
+        date: (parseInt(readString(136, 12).trim(), 8) || 0) * 1000,
+        type: readString(156, 1)
+    };
+}
+
+/**
+ * Allow reading a stream by blocks, without concatenating all the chunks.
+ */
+class ByteQueue {
+    private readonly chunks: Buffer[] = [];
+    public length = 0;
+
+    push(chunk: Buffer) {
+        this.chunks.push(chunk);
+        this.length += chunk.length;
+    }
+
+    read(size: number): Buffer {
+        const parts: Buffer[] = [];
+        let remaining = size;
+
+        while (remaining > 0) {
+            const chunk = this.chunks[0];
+
+            if (chunk.length <= remaining) {
+                parts.push(chunk);
+                this.chunks.shift();
+                remaining -= chunk.length;
+            } else {
+                parts.push(chunk.subarray(0, remaining));
+                this.chunks[0] = chunk.subarray(remaining);
+                remaining = 0;
+            }
+        }
+
+        this.length -= size;
+        return parts.length === 1 ? parts[0] : Buffer.concat(parts);
+    }
+}
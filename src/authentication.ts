@@ -0,0 +1,74 @@
+import type {WebSiteCrawler} from "./core.ts";
+
+/**
+ * The credentials sent with each request, in the "Authorization" header.
+ */
+export type CrawlerAuth =
+    { type: "basic", username: string, password: string } |
+    { type: "bearer", token: string };
+
+/**
+ * A login request done before the crawling starts.
+ * The cookies returned (ex: the session cookie) are sent with all the requests.
+ */
+export interface LoginRequest {
+    /**
+     * The url of the login form, or of the login API.
+     */
+    url: string;
+
+    /**
+     * Default is "POST".
+     */
+    method?: string;
+
+    /**
+     * The fields of the form, sent as "application/x-www-form-urlencoded".
+     */
+    form?: Record<string, string>;
+
+    /**
+     * A value sent as JSON. Is ignored if "form" is set.
+     */
+    json?: any;
+
+    headers?: Record<string, string>;
+
+    /**
+     * Allow checking that the login has succeeded.
+     * By default, the login fails if the final status is 400 or more.
+     */
+    isSuccess?: (status: number, headers: Headers) => boolean;
+}
+
+/**
+ * A function doing the login by itself.
+ * It can add cookies with crawler.cookieJar, or use crawler.fetchWithSession.
+ */
+export type LoginFunction = (crawler: WebSiteCrawler) => Promise<void>;
+
+/**
+ * Returns the value of the "Authorization" header.
+ */
+export function getAuthorizationHeader(auth: CrawlerAuth): string {
+    if (auth.type === "bearer") {
+        return "Bearer " + auth.token;
+    }
+
+    return "Basic " + Buffer.from(auth.username + ":" + auth.password, "utf-8").toString("base64");
+}
+
+/**
+ * Merge headers, where the last value set wins.
+ * The names are converted to lower case, which avoids sending the same header twice.
+ */
+export function mergeHeaders(...allHeaders: (Record<string, string>|undefined)[]): Record<string, string> {
+    const res: Record<string, string> = {};
+
+    allHeaders.forEach(headers => {
+        if (!headers) return;
+        for (const name in headers) res[name.toLowerCase()] = headers[name];
+    });
+
+    return res;
+}
@@ -0,0 +1,66 @@
+import path from "node:path";
+import {describe, expect, test} from "bun:test";
+import {getCacheFilePath, resolvePathInsideDir} from "./cacheFilePath.ts";
+
+describe("getCacheFilePath", () => {
+    test("the pages are stored as index.html", () => {
+        expect(getCacheFilePath("https://my-site", undefined, {})).toBe("index.html");
+        expect(getCacheFilePath("https://my-site/", undefined, {})).toBe("index.html");
+        expect(getCacheFilePath("https://my-site/blog/", undefined, {})).toBe("blog/index.html");
+        expect(getCacheFilePath("https://my-site/blog", undefined, {})).toBe("blog/index.html");
+        expect(getCacheFilePath("https://my-site/blog", "text/html; charset=utf-8", {})).toBe("blog/index.html");
+    });
+
+    test("the extension comes from the url, or else from the content-type", () => {
+        expect(getCacheFilePath("https://my-site/css/style.css", "text/plain", {})).toBe("css/style.css");
+        expect(getCacheFilePath("https://my-site/feed", "application/rss+xml", {})).toBe("feed.xml");
+        expect(getCacheFilePath("https://my-site/api/menu", "application/json", {})).toBe("api/menu.json");
+        expect(getCacheFilePath("https://my-site/feed", "application/rss+xml", {mimeExtensions: {"application/rss+xml": ".rss"}})).toBe("feed.rss");
+    });
+
+    test("the query string is added to the file name", () => {
+        expect(getCacheFilePath("https://my-site/blog?page=2", undefined, {})).toBe("blog/index.page-2.html");
+        expect(getCacheFilePath("https://my-site/style.css?v=2", undefined, {})).toBe("style.css");
+        expect(getCacheFilePath("https://my-site/style.css?v=2", undefined, {queryStringNaming: {appliesTo: "all"}})).toBe("style.v-2.css");
+        expect(getCacheFilePath("https://my-site/blog?page=2", undefined, {queryStringNaming: false})).toBe("blog/index.html");
+    });
+
+    test("the segments are decoded", () => {
+        expect(getCacheFilePath("https://my-site/my%20dir/caf%C3%A9.html", undefined, {})).toBe("my dir/café.html");
+        expect(getCacheFilePath("https://my-site/bad%E0%A4%A.html", undefined, {})).toBe("bad%E0%A4%A.html");
+    });
+
+    test("the encoded separators don't create directories", () => {
+        expect(getCacheFilePath("https://my-site/..%2F..%2F..%2Ftmp%2Fpwned.txt", undefined, {})).toBe("..%2F..%2F..%2Ftmp%2Fpwned.txt");
+        expect(getCacheFilePath("https://my-site/a%5C..%5Cb.txt", undefined, {})).toBe("a%5C..%5Cb.txt");
+        expect(getCacheFilePath("https://my-site/a%2fb.txt", undefined, {})).toBe("a%2Fb.txt");
+    });
+
+    test("the dot segments never go outside of the root", () => {
+        expect(getCacheFilePath("https://my-site/%2E%2E/%2e%2e/x.txt", undefined, {})).toBe("x.txt");
+        expect(getCacheFilePath("https://my-site/a/../../b.txt", undefined, {})).toBe("b.txt");
+    });
+});
+
+describe("resolvePathInsideDir", () => {
+    const rootDir = path.resolve("/srv/www");
+
+    test("returns the absolute path", () => {
+        expect(resolvePathInsideDir(rootDir, "blog/index.html")).toBe(path.join(rootDir, "blog", "index.html"));
+        expect(resolvePathInsideDir(rootDir, "a/../b.html")).toBe(path.join(rootDir, "b.html"));
+        expect(resolvePathInsideDir(rootDir, "..b.html")).toBe(path.join(rootDir, "..b.html"));
+    });
+
+    test("throws if the path goes outside of the dir", () => {
+        expect(() => resolvePathInsideDir(rootDir, "../x.html")).toThrow();
+        expect(() => resolvePathInsideDir(rootDir, "a/../../x.html")).toThrow();
+        expect(() => resolvePathInsideDir(rootDir, "../www2/x.html")).toThrow();
+        expect(() => resolvePathInsideDir(rootDir, "/etc/passwd")).toThrow();
+        expect(() => resolvePathInsideDir(rootDir, "")).toThrow();
+    });
+
+    test("a crawled url can't escape the dir", () => {
+        const relPath = getCacheFilePath("https://my-site/..%2F..%2F..%2Ftmp%2Fpwned.txt", undefined, {});
+        expect(resolvePathInsideDir(rootDir, relPath)).toBe(path.join(rootDir, "..%2F..%2F..%2Ftmp%2Fpwned.txt"));
+    });
+});
@@ -0,0 +1,86 @@
+import path from "node:path";
+import {addQueryToFileName, encodeQueryString} from "./queryStringNaming.ts";
+import {getExtensionForContentType} from "./mimeTypes.ts";
+import type {DirectFileCacheOptions} from "./directFileCache.ts";
+
+/**
+ * Returns the path of the file storing this url, relative to the root of the cache.
+ * Ex: "https://my-site/blog/" --> "blog/index.html", "https://my-site/feed" --> "feed.xml".
+ *
+ * @param url
+ *      The url to store.
+ * @param contentType
+ *      The content-type of the url, if known.
+ *      Allow choosing the extension when the url has none.
+ * @param options
+ *      Options about the file names.
+ */
+export function getCacheFilePath(url: string, contentType: string|undefined, options: DirectFileCacheOptions): string {
+    const urlInfos = new URL(url);
+    let fp = urlInfos.pathname.substring(1).split("/").map(segment => decodePathSegment(segment, url)).join("/");
+    let hasExtension = false;
+
+    if (!fp || fp.endsWith("/")) {
+        fp += "index.html";
+    } else {
+        const ext = path.posix.extname(fp);
+
+        if (ext) {
+            hasExtension = true;
+        } else {
+            const typeExt = getExtensionForContentType(contentType, options.mimeExtensions);
+
+            if (typeExt) {
+                fp += typeExt;
+                hasExtension = true;
+            } else {
+                fp += "/index.html";
+            }
+        }
+    }
+
+    const encodedQuery = encodeQueryString(urlInfos.search, hasExtension, options.queryStringNaming);
+    return addQueryToFileName(fp, encodedQuery);
+}
+
+/**
+ * Decode a segment of the url path.
+ * The encoded separators (%2F and %5C) are kept encoded: they must not create directories,
+ * otherwise "/..%2F..%2Fetc" would allow writing outside of the cache.
+ */
+function decodePathSegment(segment: string, url: string): string {
+    try {
+        segment = decodeURIComponent(segment);
+    }
+    catch {
+        // Invalid encoding: the segment is kept as-is.
+    }
+
+    segment = segment.replace(/\//g, "%2F").replace(/\\/g, "%5C");
+
+    if ((segment === ".") || (segment === "..")) {
+        throw new Error("Crawler - Invalid path in url: " + url);
+    }
+
+    return segment;
+}
+
+/**
+ * Returns the absolute path of a file inside a directory.
+ * Throws if the path goes outside of this directory (ex: "../../etc/passwd").
+ *
+ * @param rootDir
+ *      The directory, as an absolute path.
+ * @param relPath
+ *      The path of the file, relative to the directory.
+ */
+export function resolvePathInsideDir(rootDir: string, relPath: string): string {
+    const filePath = path.resolve(rootDir, relPath);
+    const relative = path.relative(rootDir, filePath);
+
+    if (!relative || (relative === "..") || relative.startsWith(".." + path.sep) || path.isAbsolute(relative)) {
+        throw new Error("Crawler - The path is outside of the directory: " + relPath);
+    }
+
+    return filePath;
+}
@@ -0,0 +1,120 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import type {ProcessUrlResult} from "./common.ts";
+import type {RecordedRedirect} from "./redirects.ts";
+import type {CrawlStatisticsState} from "./crawlStatistics.ts";
+
+export interface CrawlerCheckpointGroup {
+    /**
+     * The url of the page.
+     */
+    url: string;
+
+    /**
+     * The state of the page, if already downloaded.
+     * If set, only his resources must be processed.
+     */
+    state?: ProcessUrlResult;
+
+    /**
+     * The urls found in this page which aren't processed yet.
+     */
+    stack?: string[];
+
+    /**
+     * The number of links followed from the entry point.
+     */
+    depth?: number;
+
+    sitemapPriority?: number;
+    lastModified?: number;
+}
+
+/**
+ * Is what is saved inside a checkpoint file.
+ * Allows resuming a crawling which has been interrupted.
+ */
+export interface CrawlerCheckpoint {
+    version: number;
+
+    /**
+     * When the checkpoint has been saved.
+     */
+    date: number;
+
+    entryPoint: string;
+    urlCount: number;
+
+    /**
+     * All the urls already found.
+     */
+    urlDone: string[];
+
+    /**
+     * The pages which must be processed.
+     * The pages being processed are at the start of the list.
+     */
+    frontier: CrawlerCheckpointGroup[];
+
+    /**
+     * The retry count of the urls being processed.
+     */
+    retryCounts: Record<string, number>;
+
+    /**
+     * The pages which have already been downloaded.
+     */
+    pagesDownloaded: string[];
+
+    /**
+     * The redirections found.
+     */
+    redirects?: RecordedRedirect[];
+
+    /**
+     * The content-type of the urls downloaded.
+     */
+    contentTypes?: Record<string, string>;
+
+    /**
+     * The links written before knowing the content-type of their target.
+     * Is: target url --> (url of the page containing the link --> link written).
+     */
+    guessedLinks?: Record<string, Record<string, string>>;
+
+    /**
+     * The urls replaced by their canonical url (<link rel="canonical">).
+     */
+    canonicalAliases?: Record<string, string>;
+
+    /**
+     * The sitemap infos of the urls which aren't crawled yet.
+     */
+    sitemapInfos?: Record<string, {sitemapPriority?: number, lastModified?: number}>;
+
+    statistics?: CrawlStatisticsState;
+}
+
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Save the checkpoint.
+ * Is written to a temp file first, which avoids a corrupted file if the process dies while writing.
+ */
+export async function writeCheckpoint(filePath: string, checkpoint: CrawlerCheckpoint): Promise<void> {
+    const tmpFile = filePath + ".tmp";
+
+    await fs.mkdir(path.dirname(filePath), {recursive: true});
+    await fs.writeFile(tmpFile, JSON.stringify(checkpoint), "utf-8");
+    await fs.rename(tmpFile, filePath);
+}
+
+export async function readCheckpoint(filePath: string): Promise<CrawlerCheckpoint> {
+    const checkpoint = JSON.parse(await fs.readFile(filePath, "utf-8")) as CrawlerCheckpoint;
+
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+        throw new Error("Crawler - Unsupported checkpoint version: " + checkpoint.version);
+    }
+
+    return checkpoint;
+}
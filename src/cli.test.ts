@@ -0,0 +1,151 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs/promises";
+import {afterAll, afterEach, beforeAll, describe, expect, test} from "bun:test";
+
+interface CliResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
+let tmpDir: string;
+let gServers: ReturnType<typeof Bun.serve>[] = [];
+
+beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jopi-crawler-cli-"));
+});
+
+afterAll(async () => {
+    await fs.rm(tmpDir, {recursive: true, force: true});
+});
+
+afterEach(() => {
+    gServers.forEach(server => server.stop(true));
+    gServers = [];
+});
+
+/**
+ * Start a website where each page is given by his HTML.
+ * The others urls return a 404.
+ */
+function startSite(pages: Record<string, string>): string {
+    const server = Bun.serve({
+        port: 0,
+        hostname: "127.0.0.1",
+
+        fetch(req) {
+            const page = pages[new URL(req.url).pathname];
+            if (page === undefined) return new Response("not found", {status: 404});
+            return new Response("<html><body>" + page + "</body></html>", {headers: {"content-type": "text/html"}});
+        }
+    });
+
+    gServers.push(server);
+    return "http://127.0.0.1:" + server.port;
+}
+
+async function runCli(...args: string[]): Promise<CliResult> {
+    const proc = Bun.spawn([process.execPath, path.join(import.meta.dir, "cli.ts"), ...args], {
+        stdout: "pipe",
+        stderr: "pipe",
+        timeout: 30000
+    });
+
+    const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+        proc.exited
+    ]);
+
+    return {exitCode, stdout, stderr};
+}
+
+async function writeConfig(name: string, content: string): Promise<string> {
+    const filePath = path.join(tmpDir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+}
+
+describe("usage", () => {
+    test("the help is shown without command", async () => {
+        const res = await runCli("--help");
+
+        expect(res.exitCode).toBe(0);
+        expect(res.stdout).toStartWith("Usage: jopi-crawler");
+    });
+
+    test("an invalid command line exits with 2", async () => {
+        expect((await runCli("copy", "http://127.0.0.1")).exitCode).toBe(2);
+        expect((await runCli("list-urls", "http://127.0.0.1", "--unknown")).exitCode).toBe(2);
+        expect((await runCli("list-urls", "http://127.0.0.1", "--concurrency", "0")).exitCode).toBe(2);
+        expect((await runCli("list-urls", "not an url")).exitCode).toBe(2);
+        expect((await runCli("list-urls")).exitCode).toBe(2);
+
+        const res = await runCli("mirror", "http://127.0.0.1");
+        expect(res.exitCode).toBe(2);
+        expect(res.stderr).toContain("--out");
+    });
+
+    test("an invalid config file exits with 2", async () => {
+        const configPath = await writeConfig("invalid.json", "{url:");
+        expect((await runCli("list-urls", "--config", configPath)).exitCode).toBe(2);
+
+        const frontierPath = await writeConfig("frontier.json", JSON.stringify({frontier: "random"}));
+        expect((await runCli("list-urls", "http://127.0.0.1", "--config", frontierPath)).exitCode).toBe(2);
+    });
+});
+
+describe("commands", () => {
+    test("list-urls prints the urls of the website", async () => {
+        const url = startSite({"/": '<a href="/about">about</a>', "/about": "about"});
+        const res = await runCli("list-urls", url, "--quiet", "--ignore-robots");
+
+        expect(res.exitCode).toBe(0);
+        expect(res.stdout.trim().split("\n")).toEqual([url + "/", url + "/about"]);
+    });
+
+    test("the urls in error exit with 1", async () => {
+        const url = startSite({"/": '<a href="/missing">missing</a>'});
+        const res = await runCli("list-urls", url, "--quiet", "--ignore-robots");
+
+        expect(res.exitCode).toBe(1);
+    });
+
+    test("mirror stores the website, with the options of the config file", async () => {
+        const url = startSite({"/": '<a href="/a">a</a>', "/a": '<a href="/b">b</a>', "/b": "b"});
+        const out = path.join(tmpDir, "mirror");
+        const configPath = await writeConfig("mirror.json", JSON.stringify({url, ignoreRobotsTxt: true, maxDepth: 1}));
+
+        const res = await runCli("mirror", "--config", configPath, "--out", out);
+
+        expect(res.exitCode).toBe(0);
+        expect(res.stderr).toContain("stopped by maxDepth");
+        expect(await Bun.file(path.join(out, "a", "index.html")).exists()).toBe(true);
+        expect(await Bun.file(path.join(out, "b", "index.html")).exists()).toBe(false);
+    });
+
+    test("check-links exits with 1 if a link is broken", async () => {
+        const jsonPath = path.join(tmpDir, "links.json");
+
+        let url = startSite({"/": '<a href="/about">about</a>', "/about": "about"});
+        expect((await runCli("check-links", url, "--quiet", "--ignore-robots")).exitCode).toBe(0);
+
+        url = startSite({"/": '<a href="/missing">missing</a>'});
+        const res = await runCli("check-links", url, "--ignore-robots", "--json", jsonPath);
+
+        expect(res.exitCode).toBe(1);
+        expect(res.stderr).toContain("Broken link: " + url + "/missing (404)");
+        expect(JSON.parse(await fs.readFile(jsonPath, "utf-8")).brokenLinks.length).toBe(1);
+    });
+
+    test("a failed crawling exits with 3", async () => {
+        const url = startSite({"/": "home"});
+        const configPath = await writeConfig("login.json", JSON.stringify({login: {url: url + "/login", form: {password: "bad"}}}));
+
+        const res = await runCli("list-urls", url, "--quiet", "--config", configPath);
+
+        expect(res.exitCode).toBe(3);
+        expect(res.stderr).toContain("Login failed");
+    });
+});
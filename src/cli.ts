@@ -0,0 +1,407 @@
+#!/usr/bin/env node
+
+import {parseArgs} from "node:util";
+import {getErrorMessage} from "jopi-node-space/ns_tools";
+import {WebSiteCrawler} from "./core.ts";
+import {ProcessUrlResult, type OnCrawlingFinishedInfos, type UrlProcessedInfos} from "./common.ts";
+import {cliConfigToOptions, loadCliConfig, type CrawlerCliConfig} from "./cliConfig.ts";
+import type {LinkCheckOptions} from "./linkChecker.ts";
+
+/**
+ * The exit codes of the "jopi-crawler" command.
+ */
+enum ExitCode {
+    /**
+     * The crawling is finished without error.
+     */
+    OK = 0,
+
+    /**
+     * The crawling is finished, but some urls are in error,
+     * or broken links have been found.
+     */
+    URL_ERRORS = 1,
+
+    /**
+     * The command line or the config file is invalid.
+     */
+    INVALID_USAGE = 2,
+
+    /**
+     * The crawling has failed (ex: the login has failed).
+     */
+    FAILED = 3,
+
+    /**
+     * The crawling has been stopped with Ctrl+C or SIGTERM.
+     */
+    INTERRUPTED = 130
+}
+
+const gHelp = `Usage: jopi-crawler <command> [url] [options]
+
+Commands:
+  mirror <url> --out <dir>   Download the website into a directory.
+  list-urls <url>            Print the urls of the website, one per line.
+  check-links <url>          Search the broken links.
+
+Options:
+  -c, --config <file>        A config file (.json, .ts, .js) with the crawler options.
+  -o, --out <dir>            Where to store the website (mirror).
+  --concurrency <n>          The max number of parallel downloads.
+  --max-depth <n>            The max number of links followed from the entry point.
+  --max-pages <n>            The max number of pages crawled.
+  --user-agent <text>        The user-agent sent with each request.
+  --ignore-robots            Don't read robots.txt.
+  --internal-only            Don't check the links to others websites (check-links).
+  --json <file>              Where to write the JSON report (check-links).
+  --html <file>              Where to write the HTML report (check-links).
+  -q, --quiet                Don't show the progress.
+  -h, --help                 Show this help.
+
+Exit codes:
+  0    Success.
+  1    Some urls are in error, or broken links have been found.
+  2    Invalid command line or config file.
+  3    The crawling has failed.
+  130  Stopped with Ctrl+C or SIGTERM.
+`;
+
+/**
+ * Is thrown when the command line or the config file is invalid.
+ */
+class UsageError extends Error {
+}
+
+type Command = "mirror" | "list-urls" | "check-links";
+
+/**
+ * The states of the urls which haven't been fetched.
+ */
+const gSkippedStates: ProcessUrlResult[] = [ProcessUrlResult.IGNORED, ProcessUrlResult.BLOCKED_BY_ROBOTS, ProcessUrlResult.EXCLUDED];
+
+interface CliArgs {
+    command: Command;
+    url?: string;
+    config?: string;
+    out?: string;
+    concurrency?: number;
+    maxDepth?: number;
+    maxPages?: number;
+    userAgent?: string;
+    ignoreRobots: boolean;
+    internalOnly: boolean;
+    json?: string;
+    html?: string;
+    quiet: boolean;
+}
+
+/**
+ * Show the progress on stderr, from the urls processed.
+ * On a terminal the progress line is updated, otherwise (ex: cron)
+ * only the urls in error are written.
+ */
+class Progress {
+    private readonly isTTY = !!process.stderr.isTTY;
+    private hasLine = false;
+
+    /**
+     * The urls fetched, including the errors and the urls not modified.
+     */
+    fetchedCount = 0;
+
+    /**
+     * The urls excluded, blocked by robots.txt or ignored.
+     */
+    skippedCount = 0;
+
+    errorCount = 0;
+
+    constructor(private readonly quiet: boolean) {
+    }
+
+    onUrlProcessed(infos: UrlProcessedInfos) {
+        // The cancelled urls will be processed when the crawling is resumed.
+        if (infos.state === ProcessUrlResult.CANCELLED) return;
+
+        if (gSkippedStates.includes(infos.state)) this.skippedCount++;
+        else this.fetchedCount++;
+
+        const isError = (infos.state === ProcessUrlResult.ERROR) || (infos.state === ProcessUrlResult.TOO_LARGE);
+        if (isError) this.errorCount++;
+
+        if (this.quiet) return;
+
+        if (isError) {
+            this.writeLine(infos.state + " " + infos.sourceUrl);
+        }
+
+        if (this.isTTY) {
+            let line = "[" + this.fetchedCount + " fetched, " + this.skippedCount + " skipped, " + this.errorCount + " errors] " + infos.sourceUrl;
+            const maxLength = (process.stderr.columns || 80) - 1;
+            if (line.length > maxLength) line = line.substring(0, maxLength);
+
+            process.stderr.write("\r\x1b[K" + line);
+            this.hasLine = true;
+        }
+    }
+
+    /**
+     * Write a line without mixing it with the progress line.
+     */
+    writeLine(text: string, toStdout = false) {
+        this.clear();
+        (toStdout ? process.stdout : process.stderr).write(text + "\n");
+    }
+
+    clear() {
+        if (this.hasLine) {
+            process.stderr.write("\r\x1b[K");
+            this.hasLine = false;
+        }
+    }
+}
+
+function parseCliArgs(argv: string[]): CliArgs|undefined {
+    let parsed;
+
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                config: {type: "string", short: "c"},
+                out: {type: "string", short: "o"},
+                concurrency: {type: "string"},
+                "max-depth": {type: "string"},
+                "max-pages": {type: "string"},
+                "user-agent": {type: "string"},
+                "ignore-robots": {type: "boolean"},
+                "internal-only": {type: "boolean"},
+                json: {type: "string"},
+                html: {type: "string"},
+                quiet: {type: "boolean", short: "q"},
+                help: {type: "boolean", short: "h"}
+            }
+        });
+    }
+    catch (e) {
+        throw new UsageError(getErrorMessage(e));
+    }
+
+    const {values, positionals} = parsed;
+    if (values.help || !positionals.length) return undefined;
+
+    const command = positionals[0] as Command;
+
+    if (!["mirror", "list-urls", "check-links"].includes(command)) {
+        throw new UsageError("Unknown command: " + command);
+    }
+
+    if (positionals.length > 2) {
+        throw new UsageError("Too many arguments: " + positionals.slice(2).join(" "));
+    }
+
+    return {
+        command,
+        url: positionals[1],
+        config: values.config,
+        out: values.out,
+        concurrency: parseCount("concurrency", values.concurrency, 1),
+        maxDepth: parseCount("max-depth", values["max-depth"]),
+        maxPages: parseCount("max-pages", values["max-pages"]),
+        userAgent: values["user-agent"],
+        ignoreRobots: !!values["ignore-robots"],
+        internalOnly: !!values["internal-only"],
+        json: values.json,
+        html: values.html,
+        quiet: !!values.quiet
+    };
+}
+
+function parseCount(name: string, value: string|undefined, min = 0): number|undefined {
+    if (value === undefined) return undefined;
+
+    const count = Number(value);
+
+    if (!Number.isInteger(count) || (count < min)) {
+        throw new UsageError("--" + name + " must be a number >= " + min + ": " + value);
+    }
+
+    return count;
+}
+
+async function run(args: CliArgs, progress: Progress, signal: AbortSignal): Promise<ExitCode> {
+    let config: CrawlerCliConfig = {};
+
+    if (args.config) {
+        try {
+            config = await loadCliConfig(args.config);
+        }
+        catch (e) {
+            throw new UsageError("Can't load the config file " + args.config + ": " + getErrorMessage(e));
+        }
+    }
+
+    const url = args.url || config.url;
+    if (!url) throw new UsageError("The url of the website is missing.");
+
+    try {
+        new URL(url);
+    }
+    catch {
+        throw new UsageError("Invalid url: " + url);
+    }
+
+    let options;
+
+    try {
+        options = cliConfigToOptions(config, url);
+    }
+    catch (e) {
+        throw new UsageError(getErrorMessage(e));
+    }
+
+    if (args.concurrency !== undefined) options.concurrency = args.concurrency;
+    if (args.maxDepth !== undefined) options.maxDepth = args.maxDepth;
+    if (args.maxPages !== undefined) options.maxPages = args.maxPages;
+    if (args.userAgent !== undefined) options.userAgent = args.userAgent;
+    if (args.ignoreRobots) options.ignoreRobotsTxt = true;
+
+    if (args.command === "mirror") {
+        if (args.out) options.outputDir = args.out;
+
+        if (!options.outputDir && !options.cache) {
+            throw new UsageError("The output directory is missing (--out <dir>).");
+        }
+    } else {
+        // Nothing is stored.
+        options.outputDir = undefined;
+        options.cache = undefined;
+    }
+
+    if (args.command === "check-links") {
+        const linkCheck: LinkCheckOptions = (typeof options.linkCheck === "object") ? {...options.linkCheck} : {};
+
+        if (args.internalOnly) linkCheck.checkExternalLinks = false;
+        if (args.json) linkCheck.jsonReportPath = args.json;
+        if (args.html) linkCheck.htmlReportPath = args.html;
+
+        options.linkCheck = linkCheck;
+    } else {
+        options.linkCheck = undefined;
+    }
+
+    const configOnUrlProcessed = options.onUrlProcessed;
+
+    options.onUrlProcessed = (infos) => {
+        if (configOnUrlProcessed) configOnUrlProcessed(infos);
+        progress.onUrlProcessed(infos);
+
+        if ((args.command === "list-urls") && ((infos.state === ProcessUrlResult.OK) || (infos.state === ProcessUrlResult.NOT_MODIFIED))) {
+            progress.writeLine(infos.sourceUrl, true);
+        }
+    };
+
+    let crawler: WebSiteCrawler;
+
+    try {
+        crawler = new WebSiteCrawler(url, options);
+    }
+    catch (e) {
+        throw new UsageError(getErrorMessage(e));
+    }
+    let infos: OnCrawlingFinishedInfos;
+
+    try {
+        infos = await crawler.start(config.entryPoint, signal);
+    }
+    catch (e) {
+        progress.clear();
+        console.error("Crawler - The crawling has failed:", url);
+        console.error("|--> Message:", getErrorMessage(e));
+        return ExitCode.FAILED;
+    }
+
+    progress.clear();
+    printSummary(args, progress, infos);
+
+    if (infos.isCancelled) return ExitCode.INTERRUPTED;
+
+    if (args.command === "check-links") {
+        return infos.linkCheckReport && infos.linkCheckReport.exitCode ? ExitCode.URL_ERRORS : ExitCode.OK;
+    }
+
+    return progress.errorCount ? ExitCode.URL_ERRORS : ExitCode.OK;
+}
+
+function printSummary(args: CliArgs, progress: Progress, infos: OnCrawlingFinishedInfos) {
+    if (args.quiet) return;
+
+    const duration = Math.round(infos.statistics.duration_ms / 100) / 10;
+    let text = progress.fetchedCount + " urls fetched in " + duration + "s, " + progress.skippedCount + " skipped, " + progress.errorCount + " errors";
+
+    if (infos.limitReached) text += ", stopped by " + infos.limitReached;
+    if (infos.isCancelled) text += ", interrupted (" + infos.remainingStack.length + " urls remaining)";
+
+    console.error(text);
+
+    const report = infos.linkCheckReport;
+
+    if (report) {
+        report.brokenLinks.forEach(link => {
+            console.error("Broken link:", link.url, "(" + (link.status || link.error) + ")");
+            link.referrers.forEach(ref => console.error("|--> Found in:", ref.page, ref.element));
+        });
+
+        console.error(report.brokenLinks.length + " broken links, " + report.checkedUrlCount + " urls checked");
+    }
+}
+
+async function main(): Promise<ExitCode> {
+    let args: CliArgs|undefined;
+
+    try {
+        args = parseCliArgs(process.argv.slice(2));
+    }
+    catch (e) {
+        console.error(getErrorMessage(e));
+        console.error("Run \"jopi-crawler --help\" for the usage.");
+        return ExitCode.INVALID_USAGE;
+    }
+
+    if (!args) {
+        process.stdout.write(gHelp);
+        return ExitCode.OK;
+    }
+
+    const progress = new Progress(args.quiet);
+    const controller = new AbortController();
+
+    // The first signal stops the crawling cleanly, the second exits now.
+    const onSignal = () => {
+        if (controller.signal.aborted) process.exit(ExitCode.INTERRUPTED);
+
+        progress.clear();
+        console.error("Stopping the crawling...");
+        controller.abort();
+    };
+
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+
+    try {
+        return await run(args, progress, controller.signal);
+    }
+    catch (e) {
+        progress.clear();
+        console.error(getErrorMessage(e));
+        return (e instanceof UsageError) ? ExitCode.INVALID_USAGE : ExitCode.FAILED;
+    }
+    finally {
+        process.off("SIGINT", onSignal);
+        process.off("SIGTERM", onSignal);
+    }
+}
+
+process.exitCode = await main();
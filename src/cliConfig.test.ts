@@ -0,0 +1,73 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs/promises";
+import {afterAll, beforeAll, describe, expect, test} from "bun:test";
+import {cliConfigToOptions, loadCliConfig} from "./cliConfig.ts";
+import {UrlMapping} from "./urlMapping.ts";
+import {DfsFrontier, PriorityFrontier} from "./frontier.ts";
+
+let tmpDir: string;
+
+beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jopi-crawler-config-"));
+});
+
+afterAll(async () => {
+    await fs.rm(tmpDir, {recursive: true, force: true});
+});
+
+describe("loadCliConfig", () => {
+    test("a JSON file", async () => {
+        const filePath = path.join(tmpDir, "config.json");
+        await fs.writeFile(filePath, JSON.stringify({url: "https://example.com", maxPages: 10}));
+
+        expect(await loadCliConfig(filePath)).toEqual({url: "https://example.com", maxPages: 10});
+    });
+
+    test("a module exporting the config as default", async () => {
+        const filePath = path.join(tmpDir, "config.mjs");
+        await fs.writeFile(filePath, "export default {maxDepth: 2, canDownload: url => !url.startsWith('/admin')};");
+
+        const config = await loadCliConfig(filePath);
+        expect(config.maxDepth).toBe(2);
+        expect(config.canDownload!("/admin/users", false)).toBe(false);
+    });
+
+    test("a module without default export is rejected", async () => {
+        const filePath = path.join(tmpDir, "noDefault.mjs");
+        await fs.writeFile(filePath, "export const maxDepth = 2;");
+
+        await expect(loadCliConfig(filePath)).rejects.toThrow("must export the config as default");
+    });
+});
+
+describe("cliConfigToOptions", () => {
+    test("the options only used by the command are removed", () => {
+        const options = cliConfigToOptions({url: "https://example.com", entryPoint: "/docs", maxPages: 10}, "https://example.com");
+        expect(options).toEqual({maxPages: 10});
+    });
+
+    test("the url mapping is created from his config", () => {
+        const options = cliConfigToOptions({
+            urlMapping: {
+                defaultTarget: "http://127.0.0.1:3000",
+                routes: [{route: "/api", target: "http://127.0.0.1:4000"}]
+            }
+        }, "https://example.com");
+
+        const urlMapping = options.urlMapping!;
+        expect(urlMapping.resolveURL("/api/menu")!.url).toBe("http://127.0.0.1:4000/api/menu");
+        expect(urlMapping.resolveURL("/docs")!.url).toBe("http://127.0.0.1:3000/docs");
+    });
+
+    test("the frontier is selected by his name", () => {
+        expect(cliConfigToOptions({frontier: "dfs"}, "https://example.com").frontier).toBeInstanceOf(DfsFrontier);
+        expect(cliConfigToOptions({frontier: "priority"}, "https://example.com").frontier).toBeInstanceOf(PriorityFrontier);
+        expect(() => cliConfigToOptions({frontier: "random" as any}, "https://example.com")).toThrow("Unknown frontier");
+    });
+
+    test("an UrlMapping instance is kept", () => {
+        const urlMapping = new UrlMapping("http://127.0.0.1:3000");
+        expect(cliConfigToOptions({urlMapping}, "https://example.com").urlMapping).toBe(urlMapping);
+    });
+});
@@ -0,0 +1,122 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {pathToFileURL} from "node:url";
+import type {WebSiteCrawlerOptions} from "./common.ts";
+import {UrlMapping, type UrlMappingTargetOptions} from "./urlMapping.ts";
+import {BfsFrontier, type CrawlerFrontier, DfsFrontier, PriorityFrontier} from "./frontier.ts";
+
+/**
+ * A route of the url mapping, written in a config file.
+ * Is the same as calling urlMapping.mapURL(route, target, undefined, options).
+ */
+export interface UrlMappingRouteConfig {
+    /**
+     * Ex: "/docs".
+     */
+    route: string;
+
+    /**
+     * The server for this route. Ex: "http://127.0.0.1:3000".
+     */
+    target: string;
+
+    options?: UrlMappingTargetOptions;
+}
+
+/**
+ * An url mapping written in a config file.
+ */
+export interface UrlMappingConfig {
+    /**
+     * The server for the urls not matching a route.
+     * Default is the url of the website.
+     */
+    defaultTarget?: string;
+
+    defaultTargetOptions?: UrlMappingTargetOptions;
+
+    routes?: UrlMappingRouteConfig[];
+}
+
+/**
+ * The content of the config file used by the "jopi-crawler" command.
+ * Is the crawler options, with values which can be written in a JSON file.
+ */
+export interface CrawlerCliConfig extends Omit<WebSiteCrawlerOptions, "urlMapping" | "frontier"> {
+    /**
+     * The website to crawl, if not given in the command line.
+     */
+    url?: string;
+
+    /**
+     * The first url to crawl. Default is the root of the website.
+     */
+    entryPoint?: string;
+
+    urlMapping?: UrlMapping | UrlMappingConfig;
+
+    /**
+     * The crawl order. Default is "bfs".
+     */
+    frontier?: CrawlerFrontier | "bfs" | "dfs" | "priority";
+}
+
+/**
+ * Load a config file for the "jopi-crawler" command.
+ *
+ * A ".json" file is parsed as JSON.
+ * Other files (.ts, .js, .mjs) are imported and must export the config as default.
+ */
+export async function loadCliConfig(filePath: string): Promise<CrawlerCliConfig> {
+    filePath = path.resolve(filePath);
+
+    if (path.extname(filePath).toLowerCase() === ".json") {
+        return JSON.parse(await fs.readFile(filePath, "utf-8"));
+    }
+
+    const module = await import(pathToFileURL(filePath).href);
+    const config = module.default;
+
+    if (!config || (typeof config !== "object")) {
+        throw new Error("Crawler - The config file must export the config as default: " + filePath);
+    }
+
+    return config;
+}
+
+/**
+ * Convert the config to the options of WebSiteCrawler.
+ *
+ * @param config
+ *      The content of the config file.
+ * @param sourceWebSite
+ *      The url of the website to crawl.
+ */
+export function cliConfigToOptions(config: CrawlerCliConfig, sourceWebSite: string): WebSiteCrawlerOptions {
+    const {url, entryPoint, urlMapping, frontier, ...options} = config;
+    const res: WebSiteCrawlerOptions = options;
+
+    if (urlMapping) {
+        if (urlMapping instanceof UrlMapping) {
+            res.urlMapping = urlMapping;
+        } else {
+            const mapping = new UrlMapping(urlMapping.defaultTarget || sourceWebSite, urlMapping.defaultTargetOptions);
+
+            (urlMapping.routes || []).forEach(route => {
+                mapping.mapURL(route.route, route.target, undefined, route.options);
+            });
+
+            res.urlMapping = mapping;
+        }
+    }
+
+    if (frontier) {
+        if (frontier === "bfs") res.frontier = new BfsFrontier();
+        else if (frontier === "dfs") res.frontier = new DfsFrontier();
+        else if (frontier === "priority") res.frontier = new PriorityFrontier();
+        else if (typeof frontier === "string") throw new Error("Crawler - Unknown frontier: " + frontier);
+        else res.frontier = frontier;
+    }
+
+    return res;
+}
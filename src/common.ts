@@ -1,10 +1,127 @@
 import {UrlMapping} from "./urlMapping.ts";
 import type {WebSiteCrawler} from "./core.ts";
+import type {LinkGraph} from "./linkGraph.ts";
+import type {UrlRule} from "./urlRules.ts";
+import type {QueryStringNaming} from "./queryStringNaming.ts";
+import type {RedirectExportFormat} from "./redirects.ts";
+import type {LinkCheckOptions, LinkCheckReport} from "./linkChecker.ts";
+import type {CrawlStatistics} from "./crawlStatistics.ts";
+import type {RetryPolicy} from "./retryPolicy.ts";
+import type {CrawlerAuth, LoginFunction, LoginRequest} from "./authentication.ts";
+import type {UrlCanonicalizationRules} from "./urlCanonicalization.ts";
+import type {CrawlerFrontier} from "./frontier.ts";
 
 export interface CrawlerCache {
     hasInCache(url: string, requestedByUrl: string): Promise<boolean>;
-    addToCache(url: string, response: Response, requestedByUrl: string): Promise<void>;
+    addToCache(url: string, response: Response, requestedByUrl: string, metadata?: CrawlerCacheMetadata): Promise<void>;
     getKey(url: string): string;
+
+    /**
+     * Returns the metadata stored with this entry.
+     * Is optional: without it, the crawler can't do conditional requests.
+     */
+    getMetadata?(url: string): Promise<CrawlerCacheMetadata|undefined>;
+
+    /**
+     * If defined, is called with each http exchange, before any processing.
+     * Which includes the redirections and the errors, with the original body.
+     * Is optional: is used by caches which must store the exact responses (ex: WARC).
+     */
+    addHttpExchange?(exchange: CrawlerHttpExchange): Promise<void>;
+
+    /**
+     * If defined, allow adding a file which isn't coming from an url.
+     * Is used to add the "sitemap.xml" file.
+     *
+     * @param filePath
+     *      The path of the file, relative to the root of the cache.
+     */
+    addFile?(filePath: string, content: string): Promise<void>;
+
+    /**
+     * If defined, allow modifying the content of a text file stored in the cache.
+     * Is used to fix the links once the crawling is finished, when the real name
+     * of their target is known (ex: "/feed" stored as "feed.xml", or a redirection).
+     * Without it, these links aren't fixed.
+     */
+    rewriteFile?(url: string, transform: (content: string) => string): Promise<void>;
+
+    /**
+     * Is called once the crawling is finished.
+     * Allow flushing and closing the files.
+     */
+    close?(): Promise<void>;
+}
+
+/**
+ * A request sent by the crawler, and the response received.
+ */
+export interface CrawlerHttpExchange {
+    /**
+     * The url inside the crawled website, as given to addToCache.
+     */
+    url: string;
+
+    /**
+     * The url really fetched, on the source server.
+     */
+    targetUrl: string;
+
+    /**
+     * When the request has been sent.
+     */
+    date: number;
+
+    method: string;
+    requestHeaders: Record<string, string>;
+
+    status: number;
+    headers: Headers;
+
+    /**
+     * The body of the response.
+     * Is already decoded if the server compressed it.
+     */
+    body: Uint8Array;
+}
+
+/**
+ * Information stored with a cache entry.
+ */
+export interface CrawlerCacheMetadata {
+    /**
+     * When the url has been fetched.
+     */
+    fetchDate: number;
+
+    /**
+     * The http status of the response.
+     */
+    status: number;
+
+    /**
+     * The value of the "ETag" header.
+     */
+    etag?: string;
+
+    /**
+     * The value of the "Last-Modified" header.
+     */
+    lastModified?: string;
+
+    contentType?: string;
+
+    /**
+     * A hash of the content. Is calculated by the cache.
+     */
+    contentHash?: string;
+
+    /**
+     * The urls found inside this page (HTML or CSS).
+     * Allow crawling them again when the server says the page is unchanged,
+     * since the urls stored in the cached copy have been rewritten.
+     */
+    links?: string[];
 }
 
 export interface CrawlerTransformUrlInfos {
@@ -30,6 +147,17 @@ export interface CrawlerCanIgnoreIfAlreadyCrawled {
      * The url which will be fetched.
      */
     sourceUrl: string;
+
+    /**
+     * When the entry has been added to the cache.
+     * Is 0 if the cache doesn't store this information.
+     */
+    addToCacheDate: number;
+
+    /**
+     * The metadata stored with the cache entry, if the cache supports it.
+     */
+    metadata?: CrawlerCacheMetadata;
 }
 
 export interface WebSiteCrawlerOptions {
@@ -39,6 +167,12 @@ export interface WebSiteCrawlerOptions {
      */
     outputDir?: string;
 
+    /**
+     * Where the metadata of the files saved inside outputDir are stored.
+     * Default is the dir ".crawler-meta" inside outputDir, which must be excluded when publishing the mirror.
+     */
+    metadataDir?: string;
+
     /**
      * Allow using a cache to save the HTML pages and resource
      * and get theses that are already in the cache.
@@ -68,6 +202,13 @@ export interface WebSiteCrawlerOptions {
      */
     rewriteHtmlBeforeStoring?: (html: string, url: string, sourceUrl: string) => string|Promise<string>;
 
+    /**
+     * Is called when an URL is found and the content is CSS.
+     * Allow altering the final CSS.
+     * Is called after URL extraction.
+     */
+    rewriteCssBeforeStoring?: (css: string, url: string, sourceUrl: string) => string|Promise<string>;
+
     /**
      * Allow ignoring an entry if already crawled.
      * The function takes and url (without a base path) and
@@ -75,6 +216,14 @@ export interface WebSiteCrawlerOptions {
      */
     canIgnoreIfAlreadyCrawled?: (url: string, infos: CrawlerCanIgnoreIfAlreadyCrawled) => boolean;
 
+    /**
+     * If true, and if the url is already in the cache, then send the headers
+     * "If-None-Match" / "If-Modified-Since" to only download the url if it has changed.
+     * Require a cache storing metadata.
+     * Default is true.
+     */
+    useConditionalRequests?: boolean;
+
     /**
      * Alter the final HTML to make the URL relocatable.
      * This means we can copy and paste the website without attachement to the website name.
@@ -82,6 +231,21 @@ export interface WebSiteCrawlerOptions {
      */
     requireRelocatableUrl?: boolean;
 
+    /**
+     * How the query string is included inside the name of the files,
+     * for the files saved inside outputDir and the links pointing to them.
+     * Set it to false to ignore the query strings.
+     * Default is to encode the query string of the pages: "/blog?page=2" becomes "blog/index.page-2.html".
+     */
+    queryStringNaming?: QueryStringNaming|false;
+
+    /**
+     * Allow overriding the file extension used for a content-type,
+     * when the url has no extension. Ex: {"application/rss+xml": ".rss"}.
+     * Without extension, "/feed" returning XML is stored as "feed.xml" and not as "feed/index.html".
+     */
+    mimeExtensions?: Record<string, string>;
+
     /**
      * A list of url which must be replaced.
      * If one of these urls is found as an url prefix,
@@ -111,10 +275,174 @@ export interface WebSiteCrawlerOptions {
 
     /**
      * Allow the crawler to do a pause between two call to the server.
+     * The pause is applied per origin, which means two different servers
+     * can be called at the same time.
      * The default value is 0: no pause.
      */
     pauseDuration_ms?: number;
 
+    /**
+     * How to retry an url when the server returns an error.
+     * The default policy retries 408, 429 and 5xx errors, with an exponential backoff,
+     * and slows down the origin when it returns 429 or 503.
+     * Can be overridden for a server with the UrlMapping target options.
+     */
+    retryPolicy?: RetryPolicy;
+
+    /**
+     * The max number of urls which can be fetched at the same time.
+     * A limit per origin can be set through the UrlMapping target options.
+     * The default value is 1: urls are fetched one after one.
+     */
+    concurrency?: number;
+
+    /**
+     * The max time to wait for the server to respond, until the response headers are received.
+     * Default is 30 seconds.
+     */
+    connectTimeout_ms?: number;
+
+    /**
+     * The max time to wait for the next data while reading a response body.
+     * Default is 1 minute.
+     */
+    readTimeout_ms?: number;
+
+    /**
+     * The max size of a response body, in bytes.
+     * A bigger response is aborted and its url gets the state ProcessUrlResult.TOO_LARGE.
+     * Default is no limit.
+     */
+    maxResponseSize?: number;
+
+    /**
+     * The max number of links followed from the entry point to reach a page.
+     * 0 means only the entry point. The resources of a page are always downloaded.
+     * Default is no limit.
+     */
+    maxDepth?: number;
+
+    /**
+     * The max number of pages to download.
+     * Once reached, the new pages found are excluded.
+     */
+    maxPages?: number;
+
+    /**
+     * The max number of resources (images, CSS, ...) to download.
+     * Once reached, the new resources found are excluded.
+     */
+    maxResources?: number;
+
+    /**
+     * The max number of bytes to download.
+     * Once reached, the crawling stops after the urls being fetched.
+     */
+    maxBytes?: number;
+
+    /**
+     * The max duration of the crawling.
+     * Once reached, the crawling stops after the urls being fetched.
+     */
+    maxDuration_ms?: number;
+
+    /**
+     * The user-agent of the crawler.
+     * Is sent with each request, and is used to select the rules to apply inside the robots.txt files.
+     * Default is "jopi-crawler".
+     */
+    userAgent?: string;
+
+    /**
+     * Headers sent with each request to the crawled website and to the UrlMapping targets.
+     * Can be completed for a server with the UrlMapping target options.
+     * Aren't sent to the others sites (ex: a sitemap or a redirection to another site).
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The credentials sent with each request (basic or bearer).
+     * Can be replaced for a server with the UrlMapping target options.
+     * Are only sent to the crawled website and to the UrlMapping targets.
+     */
+    auth?: CrawlerAuth;
+
+    /**
+     * If true, the cookies set by the servers are stored
+     * and sent back with the next requests, like a browser does.
+     * Is always enabled when the "login" option is set.
+     * Default is false.
+     */
+    useCookies?: boolean;
+
+    /**
+     * A login done before the crawling starts.
+     * The session cookies it returns are sent with all the requests.
+     */
+    login?: LoginRequest | LoginFunction;
+
+    /**
+     * If true, then the robots.txt files are ignored.
+     * Is useful when crawling our own websites (ex: a staging site).
+     * Default is false.
+     */
+    ignoreRobotsTxt?: boolean;
+
+    /**
+     * If true, then the sitemaps aren't used to find the urls to crawl.
+     * Sitemaps are searched inside the robots.txt files and at "/sitemap.xml".
+     * Default is false.
+     */
+    ignoreSitemaps?: boolean;
+
+    /**
+     * If true, then a "sitemap.xml" file listing all the pages downloaded
+     * is written at the root of the output dir, once the crawling is finished.
+     * Only apply when the cache supports it (outputDir, DirectFileCache, ArchiveCache).
+     * Default is true.
+     */
+    generateSitemap?: boolean;
+
+    /**
+     * How the redirections found are exported once the crawling is finished.
+     * Ex: ["stubs", "netlify"].
+     * Require a cache supporting it (outputDir, DirectFileCache, ArchiveCache).
+     */
+    exportRedirects?: RedirectExportFormat[];
+
+    /**
+     * If true, the links pointing to a redirection are rewritten
+     * to point directly to the final target, once the crawling is finished.
+     * Only apply when using outputDir or a DirectFileCache.
+     */
+    rewriteRedirectedLinks?: boolean;
+
+    /**
+     * If set, the crawler checks the links instead of downloading the website.
+     * The urls in error are reported with the pages containing them,
+     * and the bodies are neither stored nor downloaded (except HTML and CSS).
+     */
+    linkCheck?: boolean | LinkCheckOptions;
+
+    /**
+     * If set, the statistics of the crawling are written inside the output dir,
+     * once the crawling is finished ("crawl-statistics.json" and/or "crawl-statistics.html").
+     * Require a cache supporting it (outputDir, DirectFileCache, ArchiveCache).
+     */
+    statisticsReport?: ("json" | "html")[];
+
+    /**
+     * If set, then the state of the crawler is regularly saved inside this file.
+     * Allow resuming an interrupted crawling by calling "crawler.resume(checkpointPath)".
+     */
+    checkpointPath?: string;
+
+    /**
+     * The delay between two checkpoint saves.
+     * Default is 60 seconds.
+     */
+    checkpointInterval_ms?: number;
+
     /**
      * Is called once a page is entirely downloaded.
      * This means the page himself and all the links starting from this page.
@@ -136,6 +464,7 @@ export interface WebSiteCrawlerOptions {
     /**
      * Is called when a resource returns a code which isn't 200 (ok) or a redirect.
      * Return true if retry to download, false to stop.
+     * If set, replaces the retry policy.
      */
     onInvalidResponseCodeFound?: (url: string, retryCount: number, response: CrawlerFetchResponse) => boolean|Promise<boolean>;
 
@@ -150,6 +479,36 @@ export interface WebSiteCrawlerOptions {
      */
     canDownload?(url: string, isResource: boolean): boolean;
 
+    /**
+     * A list of rules allowing to include or exclude urls.
+     * Rules are evaluated in order, and the first matching rule decides.
+     * The urls excluded are signaled to onUrlProcessed, with the rule which excluded them.
+     *
+     * Ex: [{action: "exclude", glob: "/wp-json/**"}, {action: "exclude", query: {replytocom: true}}]
+     */
+    urlRules?: UrlRule[];
+
+    /**
+     * A list of url prefixes which must not be crawled.
+     * Ex: ["/wp-json"].
+     * Is a shortcut for exclusion rules.
+     */
+    forbiddenUrls?: string[];
+
+    /**
+     * Allow detecting the urls which are the same page
+     * (tracking parameters, order of the parameters, index.html, rel="canonical").
+     * Ex: {dropParams: gTrackingParams, sortParams: true}.
+     */
+    canonicalization?: UrlCanonicalizationRules;
+
+    /**
+     * Decide in which order the pages are crawled.
+     * Can be a BfsFrontier (default), a DfsFrontier, a PriorityFrontier or our own implementation.
+     * Ex: new PriorityFrontier(createPageScoring({patterns: [{glob: "/docs/**", score: 10}]})).
+     */
+    frontier?: CrawlerFrontier;
+
     /**
      * Is called when a URL is processed.
      * Allow building stats or listing all urls found.
@@ -162,13 +521,25 @@ export interface WebSiteCrawlerOptions {
      */
     onFinished?(infos: OnCrawlingFinishedInfos): void;
 
+    /**
+     * If set, then all the links found inside the HTML and CSS are added to this graph.
+     * Allow analyzing the dependencies between pages and resources.
+     * The links to the others websites are added with the flag "external".
+     */
+    linkGraph?: LinkGraph;
+
     /**
      * Allow replacing the fetch function with our own fetch.
      */
     doFetch?: CrawlerFetch;
 }
 
-export type CrawlerFetch = (crawler: WebSiteCrawler, url: string, referer: string) => Promise<CrawlerFetchResponse>;
+/**
+ * A custom fetch function.
+ * The headers are the headers the crawler wants to send (ex: "If-None-Match").
+ * The signal is aborted on timeout or when the crawling is stopped.
+ */
+export type CrawlerFetch = (crawler: WebSiteCrawler, url: string, referer: string, headers: Record<string, string>, signal: AbortSignal) => Promise<CrawlerFetchResponse>;
 
 export interface CrawlerFetchResponse {
     status: number;
@@ -177,8 +548,44 @@ export interface CrawlerFetchResponse {
     text(): Promise<string>;
 }
 
+/**
+ * The options limiting the crawling.
+ */
+export type CrawlLimit = "maxDepth" | "maxPages" | "maxResources" | "maxBytes" | "maxDuration";
+
 export interface OnCrawlingFinishedInfos {
+    /**
+     * The urls which haven't been processed,
+     * if the crawling has been stopped before the end.
+     */
     remainingStack: string[]
+
+    /**
+     * Is true if the crawling has been stopped with the AbortSignal.
+     */
+    isCancelled: boolean;
+
+    /**
+     * The limit which has ended the crawling, if any.
+     * Is "maxDepth" if pages have been excluded because they were too deep.
+     */
+    limitReached?: CrawlLimit;
+
+    /**
+     * The checkpoint file, if checkpoints are enabled.
+     * Allow resuming the crawling if it has been stopped before the end.
+     */
+    checkpointPath?: string;
+
+    /**
+     * The broken links found, if the option linkCheck is set.
+     */
+    linkCheckReport?: LinkCheckReport;
+
+    /**
+     * The statistics of the crawling.
+     */
+    statistics: CrawlStatistics;
 }
 
 export interface UrlProcessedInfos {
@@ -197,6 +604,11 @@ export interface UrlProcessedInfos {
      * The path inside the cache.
      */
     cacheKey?: string;
+
+    /**
+     * When the state is EXCLUDED, the rule which has excluded this url.
+     */
+    excludedBy?: string;
 }
 
 export enum ProcessUrlResult {
@@ -220,7 +632,33 @@ export enum ProcessUrlResult {
      * The resource has been ignored.
      * Probably because it was already downloaded.
      */
-    IGNORED = "ignored"
+    IGNORED = "ignored",
+
+    /**
+     * The server says the resource hasn't changed since the version in the cache.
+     */
+    NOT_MODIFIED = "notModified",
+
+    /**
+     * The url is forbidden by the robots.txt of his server.
+     */
+    BLOCKED_BY_ROBOTS = "blockedByRobots",
+
+    /**
+     * The url is excluded by an url rule or by canDownload.
+     */
+    EXCLUDED = "excluded",
+
+    /**
+     * The response is bigger than the option maxResponseSize.
+     */
+    TOO_LARGE = "tooLarge",
+
+    /**
+     * The crawling has been stopped before this url has been processed.
+     * The url is kept inside the remaining urls.
+     */
+    CANCELLED = "cancelled"
 }
 
 export class UrlSortTools {
@@ -0,0 +1,280 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {createHash, randomUUID} from "node:crypto";
+import type {CrawlerCache, CrawlerCacheMetadata} from "./common.ts";
+import type {DirectFileCacheOptions} from "./directFileCache.ts";
+import {getCacheFilePath, resolvePathInsideDir} from "./cacheFilePath.ts";
+
+/**
+ * An entry of the index, linking an url to the content stored.
+ */
+export interface ContentAddressableEntry {
+    url: string;
+
+    /**
+     * The sha256 of the content.
+     */
+    hash: string;
+
+    size: number;
+    metadata: CrawlerCacheMetadata;
+}
+
+/**
+ * How much space the deduplication has saved.
+ */
+export interface DeduplicationStats {
+    /**
+     * The number of urls stored.
+     */
+    urlCount: number;
+
+    /**
+     * The number of distinct contents stored.
+     */
+    objectCount: number;
+
+    /**
+     * The size of all the urls, if stored separately.
+     */
+    totalSize: number;
+
+    /**
+     * The size really used.
+     */
+    storedSize: number;
+
+    savedSize: number;
+}
+
+/**
+ * A cache storing each content once, by his hash.
+ * Useful when the same content is available through several urls
+ * (ex: the same logo with different query strings).
+ *
+ * - The contents are stored in "objects/ab/abcdef...".
+ * - The index "index.jsonl" links each url to his content, with the response metadata.
+ *
+ * Use exportMirror to get the same layout as DirectFileCache.
+ */
+export class ContentAddressableCache implements CrawlerCache {
+    public readonly rootDir: string;
+    public readonly objectsDir: string;
+    public readonly indexPath: string;
+
+    private readonly options: Omit<DirectFileCacheOptions, "metadataDir">;
+    private readonly entries = new Map<string, ContentAddressableEntry>();
+
+    private loading?: Promise<void>;
+
+    /**
+     * @param rootDir
+     *      Where to store the contents and the index.
+     * @param options
+     *      Options about the file names, used by exportMirror.
+     */
+    constructor(rootDir: string, options?: Omit<DirectFileCacheOptions, "metadataDir">) {
+        if (!rootDir) rootDir = ".";
+        if (!path.isAbsolute(rootDir)) rootDir = path.resolve(process.cwd(), rootDir);
+        this.rootDir = rootDir;
+        this.objectsDir = path.join(rootDir, "objects");
+        this.indexPath = path.join(rootDir, "index.jsonl");
+        this.options = options || {};
+    }
+
+    /**
+     * Returns the path of the file storing the content of this url,
+     * or the url himself if not stored.
+     */
+    getKey(url: string): string {
+        const entry = this.entries.get(url);
+        if (!entry) return url;
+        return this.getObjectPath(entry.hash);
+    }
+
+    async getEntry(url: string): Promise<ContentAddressableEntry|undefined> {
+        await this.load();
+        return this.entries.get(url);
+    }
+
+    async hasInCache(url: string): Promise<boolean> {
+        return (await this.getEntry(url)) !== undefined;
+    }
+
+    async getMetadata(url: string): Promise<CrawlerCacheMetadata|undefined> {
+        const entry = await this.getEntry(url);
+        return entry ? entry.metadata : undefined;
+    }
+
+    async addToCache(url: string, response: Response, _requestedByUrl: string, metadata?: CrawlerCacheMetadata): Promise<void> {
+        // We don't store 404 and others.
+        if (response.status !== 200) return;
+
+        await this.load();
+
+        try {
+            const {hash, size} = await this.storeContent(response);
+
+            if (!metadata) {
+                metadata = {fetchDate: Date.now(), status: response.status, contentType: response.headers.get("content-type") || undefined};
+            }
+
+            const entry: ContentAddressableEntry = {url, hash, size, metadata: {...metadata, contentHash: hash}};
+            this.entries.set(url, entry);
+
+            await fs.appendFile(this.indexPath, JSON.stringify(entry) + "\n", "utf-8");
+        }
+        catch (e) {
+            console.error(e);
+        }
+    }
+
+    /**
+     * Rewrite the index, keeping only the last entry of each url.
+     */
+    async close(): Promise<void> {
+        await this.load();
+
+        let content = "";
+        for (const entry of this.entries.values()) content += JSON.stringify(entry) + "\n";
+
+        const tmpPath = this.indexPath + ".tmp";
+        await fs.writeFile(tmpPath, content, "utf-8");
+        await fs.rename(tmpPath, this.indexPath);
+    }
+
+    async getDeduplicationStats(): Promise<DeduplicationStats> {
+        await this.load();
+
+        const objectSizes = new Map<string, number>();
+        let totalSize = 0;
+
+        for (const entry of this.entries.values()) {
+            totalSize += entry.size;
+            objectSizes.set(entry.hash, entry.size);
+        }
+
+        let storedSize = 0;
+        objectSizes.forEach(size => storedSize += size);
+
+        return {
+            urlCount: this.entries.size,
+            objectCount: objectSizes.size,
+            totalSize, storedSize,
+            savedSize: totalSize - storedSize
+        };
+    }
+
+    /**
+     * Write the files of all the urls, with the same layout as DirectFileCache.
+     *
+     * @param outputDir
+     *      Where to write the files.
+     * @param useHardLinks
+     *      If true, the files are hard links to the stored contents, which use no space.
+     *      Warning: modifying these files will modify the cache.
+     */
+    async exportMirror(outputDir: string, useHardLinks: boolean = false): Promise<void> {
+        await this.load();
+
+        outputDir = path.resolve(outputDir);
+
+        for (const entry of this.entries.values()) {
+            const filePath = resolvePathInsideDir(outputDir, getCacheFilePath(entry.url, entry.metadata.contentType, this.options));
+            const objectPath = this.getObjectPath(entry.hash);
+
+            await fs.mkdir(path.dirname(filePath), {recursive: true});
+            await fs.rm(filePath, {force: true});
+
+            if (useHardLinks) {
+                try {
+                    await fs.link(objectPath, filePath);
+                    continue;
+                }
+                catch {
+                    // Not on the same device: the file is copied.
+                }
+            }
+
+            await fs.copyFile(objectPath, filePath);
+        }
+    }
+
+    private getObjectPath(hash: string): string {
+        return path.join(this.objectsDir, hash.substring(0, 2), hash);
+    }
+
+    /**
+     * Write the content in a temp file while computing his hash,
+     * then move it to his object path, if not already stored.
+     */
+    private async storeContent(response: Response): Promise<{hash: string, size: number}> {
+        const tmpDir = path.join(this.rootDir, "tmp");
+        await fs.mkdir(tmpDir, {recursive: true});
+
+        const tmpPath = path.join(tmpDir, randomUUID());
+        const hasher = createHash("sha256");
+        let size = 0;
+
+        const file = await fs.open(tmpPath, "w");
+
+        try {
+            if (response.body) {
+                for await (const chunk of response.body) {
+                    hasher.update(chunk);
+                    size += chunk.length;
+                    await file.write(chunk);
+                }
+            }
+        }
+        finally {
+            await file.close();
+        }
+
+        const hash = hasher.digest("hex");
+        const objectPath = this.getObjectPath(hash);
+
+        try {
+            await fs.access(objectPath);
+
+            // Already stored: this is where the space is saved.
+            await fs.rm(tmpPath, {force: true});
+        }
+        catch {
+            await fs.mkdir(path.dirname(objectPath), {recursive: true});
+            await fs.rename(tmpPath, objectPath);
+        }
+
+        return {hash, size};
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) this.loading = this.doLoad();
+        return this.loading;
+    }
+
+    private async doLoad() {
+        await fs.mkdir(this.rootDir, {recursive: true});
+
+        let content: string;
+
+        try {
+            content = await fs.readFile(this.indexPath, "utf-8");
+        }
+        catch {
+            return;
+        }
+
+        for (const line of content.split("\n")) {
+            if (!line) continue;
+
+            try {
+                const entry = JSON.parse(line) as ContentAddressableEntry;
+                this.entries.set(entry.url, entry);
+            }
+            catch {
+                // An interrupted write can leave an invalid line.
+            }
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import {describe, expect, test} from "bun:test";
+import {CookieJar} from "./cookieJar.ts";
+
+describe("CookieJar", () => {
+    test("a cookie is only sent to the host which has set it", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://www.example.com/login", "session=abc; Path=/");
+
+        expect(jar.getCookieHeader("https://www.example.com/page")).toBe("session=abc");
+        expect(jar.getCookieHeader("https://example.com/page")).toBeUndefined();
+        expect(jar.getCookieHeader("https://sub.www.example.com/page")).toBeUndefined();
+    });
+
+    test("the domain attribute includes the sub-domains", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://www.example.com/", "lang=fr; Domain=.example.com");
+
+        expect(jar.getCookieHeader("https://example.com/")).toBe("lang=fr");
+        expect(jar.getCookieHeader("https://static.example.com/")).toBe("lang=fr");
+        expect(jar.getCookieHeader("https://example.org/")).toBeUndefined();
+    });
+
+    test("a server can't set a cookie for another domain", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://www.example.com/", "lang=fr; Domain=example.org");
+
+        expect(jar.getAll()).toEqual([]);
+    });
+
+    test("the path is matched by segments", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://example.com/", "a=1; Path=/docs");
+        jar.setCookie("https://example.com/", "b=2; Path=/");
+
+        expect(jar.getCookieHeader("https://example.com/docs/page")).toBe("a=1; b=2");
+        expect(jar.getCookieHeader("https://example.com/docs")).toBe("a=1; b=2");
+        expect(jar.getCookieHeader("https://example.com/docsite")).toBe("b=2");
+    });
+
+    test("the default path is the directory of the url", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://example.com/account/login", "session=abc");
+
+        expect(jar.getCookieHeader("https://example.com/account/profile")).toBe("session=abc");
+        expect(jar.getCookieHeader("https://example.com/")).toBeUndefined();
+    });
+
+    test("the secure cookies are only sent with https", () => {
+        const jar = new CookieJar();
+        jar.setCookie("https://example.com/", "session=abc; Path=/; Secure; HttpOnly");
+
+        expect(jar.getCookieHeader("http://example.com/")).toBeUndefined();
+        expect(jar.getCookieHeader("https://example.com/")).toBe("session=abc");
+        expect(jar.getAll()[0].httpOnly).toBe(true);
+    });
+
+    test("a cookie is replaced, and deleted when expired", () => {
+        const jar = new CookieJar();
+        jar.setCookies("https://example.com/", ["session=abc; Path=/", "theme=dark; Path=/; Max-Age=3600"]);
+        jar.setCookie("https://example.com/", "session=def; Path=/");
+
+        expect(jar.getCookieHeader("https://example.com/")).toBe("session=def; theme=dark");
+
+        jar.setCookie("https://example.com/", "session=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT");
+        jar.setCookie("https://example.com/", "theme=; Path=/; Max-Age=0");
+
+        expect(jar.getCookieHeader("https://example.com/")).toBeUndefined();
+    });
+});
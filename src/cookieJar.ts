@@ -0,0 +1,205 @@
+export interface StoredCookie {
+    name: string;
+    value: string;
+
+    domain: string;
+    path: string;
+
+    /**
+     * If true, the cookie is only sent to the exact host which has set it.
+     * Is the case when the "Domain" attribute is missing.
+     */
+    hostOnly: boolean;
+
+    secure: boolean;
+    httpOnly: boolean;
+
+    /**
+     * When the cookie expires, or undefined for a session cookie.
+     */
+    expires?: number;
+}
+
+/**
+ * Store the cookies sent by the servers with "Set-Cookie",
+ * and returns the "Cookie" header to send with the next requests.
+ */
+export class CookieJar {
+    private readonly cookies = new Map<string, StoredCookie>();
+
+    /**
+     * Store the cookies of a response.
+     *
+     * @param url
+     *      The url which has been requested.
+     * @param setCookieHeaders
+     *      The values of the "Set-Cookie" headers.
+     */
+    setCookies(url: string, setCookieHeaders: string[]) {
+        const urlInfos = new URL(url);
+        setCookieHeaders.forEach(header => this.setCookie(urlInfos, header));
+    }
+
+    /**
+     * Add a cookie, as if the server has sent it.
+     *
+     * @param url
+     *      The url which has set the cookie.
+     * @param setCookieHeader
+     *      A "Set-Cookie" value (ex: "session=abc; Path=/; HttpOnly").
+     */
+    setCookie(url: string|URL, setCookieHeader: string) {
+        const urlInfos = typeof url === "string" ? new URL(url) : url;
+        const cookie = parseSetCookie(urlInfos, setCookieHeader);
+        if (!cookie) return;
+
+        const key = cookie.domain + ";" + cookie.path + ";" + cookie.name;
+
+        // An expiration in the past is how a server deletes a cookie.
+        if ((cookie.expires !== undefined) && (cookie.expires <= Date.now())) {
+            this.cookies.delete(key);
+        } else {
+            this.cookies.set(key, cookie);
+        }
+    }
+
+    /**
+     * Returns the value of the "Cookie" header for this url,
+     * or undefined if there is no cookie to send.
+     */
+    getCookieHeader(url: string): string|undefined {
+        const cookies = this.getCookies(url);
+        if (!cookies.length) return undefined;
+        return cookies.map(c => c.name + "=" + c.value).join("; ");
+    }
+
+    /**
+     * Returns the cookies to send for this url.
+     * The cookies with the longest path are first.
+     */
+    getCookies(url: string): StoredCookie[] {
+        const urlInfos = new URL(url);
+        const host = urlInfos.hostname.toLowerCase();
+        const isSecure = urlInfos.protocol === "https:";
+        const now = Date.now();
+
+        const found: StoredCookie[] = [];
+
+        for (const [key, cookie] of this.cookies) {
+            if ((cookie.expires !== undefined) && (cookie.expires <= now)) {
+                this.cookies.delete(key);
+                continue;
+            }
+
+            if (cookie.secure && !isSecure) continue;
+            if (!isDomainMatching(host, cookie)) continue;
+            if (!isPathMatching(urlInfos.pathname, cookie.path)) continue;
+
+            found.push(cookie);
+        }
+
+        return found.sort((a, b) => b.path.length - a.path.length);
+    }
+
+    getAll(): StoredCookie[] {
+        return Array.from(this.cookies.values());
+    }
+
+    clear() {
+        this.cookies.clear();
+    }
+}
+
+function isDomainMatching(host: string, cookie: StoredCookie): boolean {
+    if (host === cookie.domain) return true;
+    if (cookie.hostOnly) return false;
+    return host.endsWith("." + cookie.domain);
+}
+
+function isPathMatching(requestPath: string, cookiePath: string): boolean {
+    if (requestPath === cookiePath) return true;
+    if (!requestPath.startsWith(cookiePath)) return false;
+    return cookiePath.endsWith("/") || (requestPath[cookiePath.length] === "/");
+}
+
+/**
+ * Returns the default path of a cookie, which is the "directory" of the url.
+ */
+function getDefaultPath(urlPath: string): string {
+    if (!urlPath.startsWith("/")) return "/";
+
+    const idx = urlPath.lastIndexOf("/");
+    if (idx <= 0) return "/";
+
+    return urlPath.substring(0, idx);
+}
+
+function parseSetCookie(urlInfos: URL, header: string): StoredCookie|undefined {
+    const parts = header.split(";");
+    const nameValue = parts.shift()!;
+
+    const idx = nameValue.indexOf("=");
+    if (idx <= 0) return undefined;
+
+    const host = urlInfos.hostname.toLowerCase();
+
+    const cookie: StoredCookie = {
+        name: nameValue.substring(0, idx).trim(),
+        value: nameValue.substring(idx + 1).trim(),
+        domain: host,
+        path: getDefaultPath(urlInfos.pathname),
+        hostOnly: true,
+        secure: false,
+        httpOnly: false
+    };
+
+    let maxAge: number|undefined;
+
+    for (const part of parts) {
+        const sep = part.indexOf("=");
+        const attrName = (sep === -1 ? part : part.substring(0, sep)).trim().toLowerCase();
+        const attrValue = sep === -1 ? "" : part.substring(sep + 1).trim();
+
+        switch (attrName) {
+            case "domain": {
+                let domain = attrValue.toLowerCase();
+                if (domain.startsWith(".")) domain = domain.substring(1);
+                if (!domain) break;
+
+                // A server can't set a cookie for another domain.
+                if ((host !== domain) && !host.endsWith("." + domain)) return undefined;
+
+                cookie.domain = domain;
+                cookie.hostOnly = false;
+                break;
+            }
+
+            case "path":
+                if (attrValue.startsWith("/")) cookie.path = attrValue;
+                break;
+
+            case "expires": {
+                const date = Date.parse(attrValue);
+                if (!isNaN(date)) cookie.expires = date;
+                break;
+            }
+
+            case "max-age":
+                if (/^-?\d+$/.test(attrValue)) maxAge = parseInt(attrValue);
+                break;
+
+            case "secure":
+                cookie.secure = true;
+                break;
+
+            case "httponly":
+                cookie.httpOnly = true;
+                break;
+        }
+    }
+
+    // Max-Age has priority over Expires.
+    if (maxAge !== undefined) cookie.expires = Date.now() + maxAge * 1000;
+
+    return cookie;
+}
@@ -0,0 +1,793 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs/promises";
+import {gzipSync} from "node:zlib";
+import {afterAll, afterEach, beforeAll, describe, expect, test} from "bun:test";
+import {WebSiteCrawler} from "./core.ts";
+import {UrlMapping} from "./urlMapping.ts";
+import {LinkGraph} from "./linkGraph.ts";
+import {ArchiveCache} from "./archiveCache.ts";
+import {type ArchiveFormat, readArchive} from "./archiveFormats.ts";
+import {parseSitemap} from "./sitemap.ts";
+import type {WebSiteCrawlerOptions} from "./common.ts";
+import type {CrawlerEvent, FinishedEvent} from "./crawlerEvents.ts";
+
+type Route = (req: Request) => Response|Promise<Response>;
+
+interface ReceivedRequest {
+    /**
+     * The path and the query string.
+     */
+    path: string;
+
+    headers: Headers;
+}
+
+interface TestSite {
+    url: string;
+
+    /**
+     * The requests received, in order.
+     */
+    requests: ReceivedRequest[];
+
+    stop(): void;
+}
+
+let tmpDir: string;
+let gSites: TestSite[] = [];
+
+beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jopi-crawler-core-"));
+});
+
+afterAll(async () => {
+    await fs.rm(tmpDir, {recursive: true, force: true});
+});
+
+afterEach(() => {
+    gSites.forEach(site => site.stop());
+    gSites = [];
+});
+
+function startSite(routes: Record<string, Route>): TestSite {
+    const requests: ReceivedRequest[] = [];
+
+    const server = Bun.serve({
+        port: 0,
+        hostname: "127.0.0.1",
+
+        fetch(req) {
+            const url = new URL(req.url);
+
+            // The request can't be read once the response is sent.
+            requests.push({path: url.pathname + url.search, headers: new Headers(req.headers)});
+
+            const route = routes[url.pathname];
+            return route ? route(req) : new Response("not found", {status: 404});
+        }
+    });
+
+    const site = {url: "http://127.0.0.1:" + server.port, requests, stop: () => server.stop(true)};
+    gSites.push(site);
+    return site;
+}
+
+function html(body: string, headers?: Record<string, string>): Response {
+    return new Response("<html><head></head><body>" + body + "</body></html>", {
+        headers: {"content-type": "text/html", ...headers}
+    });
+}
+
+function pathsOf(site: TestSite): string[] {
+    return site.requests.map(req => req.path);
+}
+
+/**
+ * Returns the HTML of the links to count urls.
+ */
+function links(count: number, getUrl: (idx: number) => string): string {
+    let res = "";
+    for (let i = 0; i < count; i++) res += `<a href="${getUrl(i)}">link</a>`;
+    return res;
+}
+
+let gOutputCount = 0;
+
+function newOutputDir(): string {
+    return path.join(tmpDir, "out" + (++gOutputCount));
+}
+
+function crawlOptions(options?: WebSiteCrawlerOptions): WebSiteCrawlerOptions {
+    return {ignoreRobotsTxt: true, ignoreSitemaps: true, ...options};
+}
+
+/**
+ * Returns a route which counts the requests being processed.
+ */
+function slowRoute(counter: {active: number, maxActive: number}, response: () => Response, delay_ms: number = 30): Route {
+    return async () => {
+        counter.active++;
+        counter.maxActive = Math.max(counter.maxActive, counter.active);
+        await Bun.sleep(delay_ms);
+        counter.active--;
+        return response();
+    };
+}
+
+describe("concurrency", () => {
+    test("the urls are fetched in parallel, up to the concurrency", async () => {
+        const counter = {active: 0, maxActive: 0};
+        const routes: Record<string, Route> = {"/": () => html(links(8, i => "/p" + i))};
+        for (let i = 0; i < 8; i++) routes["/p" + i] = slowRoute(counter, () => html("page"));
+
+        const site = startSite(routes);
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({concurrency: 3})).start();
+
+        expect(infos.statistics.countByState.ok).toBe(9);
+        expect(counter.maxActive).toBeGreaterThan(1);
+        expect(counter.maxActive).toBeLessThanOrEqual(3);
+    });
+
+    test("a UrlMapping target can have his own concurrency", async () => {
+        const apiCounter = {active: 0, maxActive: 0};
+        const siteCounter = {active: 0, maxActive: 0};
+
+        const apiRoutes: Record<string, Route> = {};
+        for (let i = 0; i < 5; i++) apiRoutes["/api/" + i] = slowRoute(apiCounter, () => html("api"));
+        const api = startSite(apiRoutes);
+
+        const routes: Record<string, Route> = {"/": () => html(links(5, i => "/api/" + i) + links(5, i => "/p" + i))};
+        for (let i = 0; i < 5; i++) routes["/p" + i] = slowRoute(siteCounter, () => html("page"));
+        const site = startSite(routes);
+
+        const urlMapping = new UrlMapping(site.url).mapURL("/api", api.url, undefined, {concurrency: 1});
+        await new WebSiteCrawler(site.url, crawlOptions({urlMapping, concurrency: 4})).start();
+
+        expect(pathsOf(api).length).toBe(5);
+        expect(apiCounter.maxActive).toBe(1);
+        expect(siteCounter.maxActive).toBeGreaterThan(1);
+        expect(siteCounter.maxActive).toBeLessThanOrEqual(4);
+    });
+
+    test("the concurrency must be 1 or more", () => {
+        expect(() => new WebSiteCrawler("https://my-site", {concurrency: 0})).toThrow();
+        expect(() => new WebSiteCrawler("https://my-site", {concurrency: undefined})).not.toThrow();
+    });
+});
+
+describe("sitemaps", () => {
+    function startSitemapSite(): TestSite {
+        const site: TestSite = startSite({
+            "/": () => html(`<a href="/linked">linked</a><link rel="stylesheet" href="/style.css">`),
+            "/linked": () => html("linked"),
+            "/hidden": () => html("only inside the sitemap"),
+            "/style.css": () => new Response("body{}", {headers: {"content-type": "text/css"}}),
+            "/robots.txt": () => new Response("User-agent: *\nAllow: /\nSitemap: " + site.url + "/sitemap-index.xml\n"),
+
+            "/sitemap-index.xml": () => new Response(`<sitemapindex><sitemap><loc>${site.url}/sitemap-pages.xml.gz</loc></sitemap></sitemapindex>`),
+
+            "/sitemap-pages.xml.gz": () => new Response(gzipSync(`<urlset><url><loc>${site.url}/hidden</loc></url>`
+                + `<url><loc>https://other-site/page</loc></url></urlset>`))
+        });
+
+        return site;
+    }
+
+    test("the pages of the sitemaps are crawled", async () => {
+        const site = startSitemapSite();
+        const outputDir = newOutputDir();
+
+        await new WebSiteCrawler(site.url, {outputDir}).start();
+
+        expect(pathsOf(site)).toContain("/hidden");
+        expect(pathsOf(site)).toContain("/sitemap.xml");
+
+        // The sitemap generated only contains the pages.
+        const sitemap = parseSitemap(await Bun.file(path.join(outputDir, "sitemap.xml")).text());
+        expect(sitemap.entries.map(e => e.loc).sort()).toEqual([site.url + "/", site.url + "/hidden", site.url + "/linked"]);
+    });
+
+    test("the sitemaps can be ignored", async () => {
+        const site = startSitemapSite();
+        const outputDir = newOutputDir();
+
+        await new WebSiteCrawler(site.url, {outputDir, ignoreSitemaps: true, generateSitemap: false}).start();
+
+        expect(pathsOf(site).sort()).toEqual(["/", "/linked", "/robots.txt", "/style.css"]);
+        expect(await Bun.file(path.join(outputDir, "sitemap.xml")).exists()).toBe(false);
+    });
+});
+
+describe("checkpoints", () => {
+    test("a cancelled crawling is resumed from his checkpoint", async () => {
+        const routes: Record<string, Route> = {"/": () => html(links(20, i => "/p" + i))};
+        for (let i = 0; i < 20; i++) routes["/p" + i] = () => html("page " + i);
+        const site = startSite(routes);
+
+        const outputDir = newOutputDir();
+        const checkpointPath = outputDir + "-checkpoint.json";
+        const controller = new AbortController();
+        let okCount = 0;
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({
+            outputDir, checkpointPath,
+            onUrlProcessed: infos => { if ((infos.state === "ok") && (++okCount === 5)) controller.abort(); }
+        })).start(undefined, controller.signal);
+
+        expect(infos.isCancelled).toBe(true);
+        expect(infos.checkpointPath).toBe(checkpointPath);
+        expect(infos.remainingStack.length).toBeGreaterThan(10);
+
+        const firstRun = pathsOf(site).length;
+
+        const resumed = await new WebSiteCrawler(site.url, crawlOptions({outputDir, checkpointPath})).resume(checkpointPath);
+
+        expect(resumed.isCancelled).toBe(false);
+        expect(resumed.remainingStack).toEqual([]);
+
+        // Only the urls being fetched when cancelled are fetched again.
+        const paths = pathsOf(site);
+        expect(new Set(paths).size).toBe(21);
+        expect(paths.length - 21).toBeLessThanOrEqual(1);
+        expect(pathsOf(site).slice(firstRun)).not.toContain("/");
+
+        // The sitemap and the statistics are for the whole crawling.
+        const sitemap = parseSitemap(await Bun.file(path.join(outputDir, "sitemap.xml")).text());
+        expect(sitemap.entries.length).toBe(21);
+        expect(resumed.statistics.countByState.ok).toBe(21);
+    });
+});
+
+describe("conditional requests", () => {
+    test("the unchanged pages are not downloaded again", async () => {
+        const lastModified = new Date(Date.UTC(2024, 0, 1)).toUTCString();
+
+        const site = startSite({
+            "/": req => req.headers.get("if-none-match") === '"v1"'
+                ? new Response(null, {status: 304})
+                : html('<a href="/about">about</a>', {"etag": '"v1"'}),
+
+            "/about": req => req.headers.get("if-modified-since") === lastModified
+                ? new Response(null, {status: 304})
+                : html("about", {"last-modified": lastModified})
+        });
+
+        const outputDir = newOutputDir();
+        await new WebSiteCrawler(site.url, crawlOptions({outputDir})).start();
+
+        const states: string[] = [];
+        site.requests.length = 0;
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({
+            outputDir,
+            onUrlProcessed: infos => { states.push(infos.state) }
+        })).start();
+
+        expect(site.requests.find(r => r.path === "/")!.headers.get("if-none-match")).toBe('"v1"');
+        expect(site.requests.find(r => r.path === "/about")!.headers.get("if-modified-since")).toBe(lastModified);
+
+        // The links of the cached page are still followed.
+        expect(states).toEqual(["notModified", "notModified"]);
+        expect(infos.statistics.countByState.notModified).toBe(2);
+        expect(await Bun.file(path.join(outputDir, "about", "index.html")).exists()).toBe(true);
+    });
+
+    test("the conditional requests can be disabled", async () => {
+        const site = startSite({"/": () => html("home", {"etag": '"v1"'})});
+
+        const outputDir = newOutputDir();
+        await new WebSiteCrawler(site.url, crawlOptions({outputDir})).start();
+        await new WebSiteCrawler(site.url, crawlOptions({outputDir, useConditionalRequests: false})).start();
+
+        expect(site.requests.length).toBe(2);
+        expect(site.requests[1].headers.get("if-none-match")).toBeNull();
+    });
+});
+
+describe("link checker", () => {
+    test("the broken links are reported with the pages containing them", async () => {
+        const other = startSite({"/fine": () => new Response("fine")});
+
+        const site = startSite({
+            "/": () => html('<a href="/missing" class="btn">missing</a><a href="/about">about</a>'
+                + `<a href="${other.url}/fine">fine</a><a href="${other.url}/gone">gone</a>`),
+            "/about": () => html('<img src="/missing">')
+        });
+
+        const jsonReportPath = newOutputDir() + "-links.json";
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({linkCheck: {jsonReportPath}})).start();
+        const report = infos.linkCheckReport!;
+
+        expect(report.exitCode).toBe(1);
+        expect(report.brokenLinks.map(l => l.url).sort()).toEqual([other.url + "/gone", site.url + "/missing"].sort());
+
+        const missing = report.brokenLinks.find(l => l.url === site.url + "/missing")!;
+        expect(missing.status).toBe(404);
+        expect(missing.isExternal).toBe(false);
+        expect(missing.referrers.map(r => r.page + " " + r.element).sort()).toEqual([site.url + "/ a[href]", site.url + "/about img[src]"]);
+        expect(missing.referrers.find(r => r.element === "a[href]")!.html).toBe('<a href="/missing" class="btn">');
+
+        const gone = report.brokenLinks.find(l => l.url === other.url + "/gone")!;
+        expect(gone.isExternal).toBe(true);
+
+        // The external links are only checked.
+        expect([...new Set(pathsOf(other))].sort()).toEqual(["/fine", "/gone"]);
+        expect(JSON.parse(await fs.readFile(jsonReportPath, "utf8")).brokenLinks.length).toBe(2);
+    });
+
+    test("the external links can be ignored", async () => {
+        const other = startSite({});
+        const site = startSite({"/": () => html(`<a href="${other.url}/gone">gone</a>`)});
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({linkCheck: {checkExternalLinks: false}})).start();
+
+        expect(infos.linkCheckReport!.exitCode).toBe(0);
+        expect(other.requests.length).toBe(0);
+    });
+});
+
+describe("request limits", () => {
+    function recordStates(states: Record<string, string>): WebSiteCrawlerOptions["onUrlProcessed"] {
+        return infos => { states[new URL(infos.sourceUrl).pathname] = infos.state };
+    }
+
+    test("the crawling can be cancelled with a signal", async () => {
+        const counter = {active: 0, maxActive: 0};
+        const routes: Record<string, Route> = {"/": () => html(links(10, i => "/p" + i))};
+        for (let i = 0; i < 10; i++) routes["/p" + i] = slowRoute(counter, () => html("page"), 40);
+        const site = startSite(routes);
+
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        // The current request is aborted, the crawling doesn't wait for it.
+        const startDate = Date.now();
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({concurrency: 1})).start(undefined, controller.signal);
+
+        expect(Date.now() - startDate).toBeLessThan(200);
+        expect(infos.isCancelled).toBe(true);
+        expect(infos.remainingStack.length).toBeGreaterThan(0);
+        expect(site.requests.length).toBeLessThan(11);
+    });
+
+    test("a server too slow to respond or to send the body is an error", async () => {
+        const site = startSite({
+            "/": () => html('<a href="/slow-headers">a</a><a href="/slow-body">b</a><a href="/fast">c</a>'),
+
+            "/slow-headers": async () => {
+                await Bun.sleep(1000);
+                return html("too late");
+            },
+
+            "/slow-body": () => new Response(new ReadableStream({
+                async pull(controller) {
+                    controller.enqueue(new TextEncoder().encode("<html>"));
+                    await Bun.sleep(1000);
+                    controller.close();
+                }
+            }), {headers: {"content-type": "text/html"}}),
+
+            "/fast": () => html("fast")
+        });
+
+        const states: Record<string, string> = {};
+        const startDate = Date.now();
+
+        await new WebSiteCrawler(site.url, crawlOptions({
+            connectTimeout_ms: 100, readTimeout_ms: 100,
+            onUrlProcessed: recordStates(states)
+        })).start();
+
+        expect(states).toEqual({"/": "ok", "/slow-headers": "error", "/slow-body": "error", "/fast": "ok"});
+        expect(Date.now() - startDate).toBeLessThan(900);
+    });
+
+    test("the responses bigger than maxResponseSize are not stored", async () => {
+        const body = "x".repeat(2000);
+
+        const site = startSite({
+            "/": () => html('<a href="/big.txt">a</a><a href="/chunked.txt">b</a><a href="/small.txt">c</a>'),
+            "/big.txt": () => new Response(body, {headers: {"content-type": "text/plain"}}),
+
+            "/chunked.txt": () => new Response(new ReadableStream({
+                pull(controller) {
+                    controller.enqueue(new TextEncoder().encode(body));
+                    controller.close();
+                }
+            }), {headers: {"content-type": "text/plain"}}),
+
+            "/small.txt": () => new Response("small", {headers: {"content-type": "text/plain"}})
+        });
+
+        const outputDir = newOutputDir();
+        const states: Record<string, string> = {};
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({
+            outputDir, maxResponseSize: 1000,
+            onUrlProcessed: recordStates(states)
+        })).start();
+
+        expect(states).toEqual({"/": "ok", "/big.txt": "tooLarge", "/chunked.txt": "tooLarge", "/small.txt": "ok"});
+        expect(infos.statistics.countByState.tooLarge).toBe(2);
+
+        expect(await Bun.file(path.join(outputDir, "small.txt")).exists()).toBe(true);
+        expect(await Bun.file(path.join(outputDir, "big.txt")).exists()).toBe(false);
+        expect(await Bun.file(path.join(outputDir, "chunked.txt")).exists()).toBe(false);
+    });
+});
+
+describe("scope limits", () => {
+    function recordExcluded(excluded: Record<string, string>): WebSiteCrawlerOptions["onUrlProcessed"] {
+        return infos => { if (infos.state === "excluded") excluded[new URL(infos.sourceUrl).pathname] = infos.excludedBy! };
+    }
+
+    function pagesSite(count: number, body: string = "page"): TestSite {
+        const routes: Record<string, Route> = {"/": () => html(links(count, i => "/p" + i))};
+        for (let i = 0; i < count; i++) routes["/p" + i] = () => html(body);
+        return startSite(routes);
+    }
+
+    test("the pages deeper than maxDepth are excluded", async () => {
+        const site = startSite({
+            "/": () => html('<a href="/a">a</a>'),
+            "/a": () => html('<a href="/b">b</a><img src="/a.png">'),
+            "/a.png": () => new Response("png", {headers: {"content-type": "image/png"}}),
+            "/b": () => html('<a href="/c">c</a>')
+        });
+
+        const excluded: Record<string, string> = {};
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({
+            maxDepth: 1, onUrlProcessed: recordExcluded(excluded)
+        })).start();
+
+        // The resources of the last page are downloaded.
+        expect(pathsOf(site)).toEqual(["/", "/a", "/a.png"]);
+        expect(excluded).toEqual({"/b": "maxDepth"});
+        expect(infos.limitReached).toBe("maxDepth");
+    });
+
+    test("the number of pages and resources is limited", async () => {
+        const site = startSite({
+            "/": () => html(links(5, i => "/p" + i) + '<img src="/1.png"><img src="/2.png"><img src="/3.png">'),
+            "/p0": () => html("page"),
+            "/p1": () => html("page"),
+            "/1.png": () => new Response("png", {headers: {"content-type": "image/png"}}),
+            "/2.png": () => new Response("png", {headers: {"content-type": "image/png"}})
+        });
+
+        const excluded: Record<string, string> = {};
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({
+            maxPages: 3, maxResources: 2, onUrlProcessed: recordExcluded(excluded)
+        })).start();
+
+        // The entry point is a page.
+        expect(pathsOf(site).sort()).toEqual(["/", "/1.png", "/2.png", "/p0", "/p1"]);
+        expect(excluded).toEqual({"/3.png": "maxResources", "/p2": "maxPages", "/p3": "maxPages", "/p4": "maxPages"});
+        expect(infos.limitReached).toBe("maxPages");
+        expect(infos.remainingStack).toEqual([]);
+    });
+
+    test("the crawling stops once maxBytes is downloaded", async () => {
+        const site = pagesSite(10, "x".repeat(1000));
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({concurrency: 1, maxBytes: 2500})).start();
+
+        expect(infos.limitReached).toBe("maxBytes");
+        expect(infos.isCancelled).toBe(false);
+        expect(infos.remainingStack.length).toBeGreaterThan(0);
+        expect(site.requests.length).toBeLessThan(11);
+    });
+
+    test("the crawling stops once maxDuration_ms is elapsed", async () => {
+        const counter = {active: 0, maxActive: 0};
+        const routes: Record<string, Route> = {"/": () => html(links(10, i => "/p" + i))};
+        for (let i = 0; i < 10; i++) routes["/p" + i] = slowRoute(counter, () => html("page"), 40);
+        const site = startSite(routes);
+
+        const infos = await new WebSiteCrawler(site.url, crawlOptions({concurrency: 1, maxDuration_ms: 100})).start();
+
+        expect(infos.limitReached).toBe("maxDuration");
+        expect(infos.remainingStack.length).toBeGreaterThan(0);
+        expect(site.requests.length).toBeLessThan(11);
+    });
+});
+
+describe("events", () => {
+    async function readEvents(events: AsyncIterable<CrawlerEvent>): Promise<CrawlerEvent[]> {
+        const res: CrawlerEvent[] = [];
+        for await (const event of events) res.push(event);
+        return res;
+    }
+
+    function describeEvent(event: CrawlerEvent): string {
+        switch (event.type) {
+            case "finished": return "finished";
+            case "error": return "error " + new URL(event.url).pathname + " " + event.status;
+            default: return event.type + " " + new URL(event.url).pathname;
+        }
+    }
+
+    test("the events are read with for await", async () => {
+        const site = startSite({
+            "/": () => html('<a href="/a">a</a>'),
+            "/a": () => html('<a href="/missing">missing</a><img src="/a.png">'),
+            "/a.png": () => new Response("png", {headers: {"content-type": "image/png"}})
+        });
+
+        const crawler = new WebSiteCrawler(site.url, crawlOptions());
+        const reading = readEvents(crawler.events());
+        const infos = await crawler.start();
+        const events = await reading;
+
+        const described = events.map(describeEvent);
+        expect(described[0]).toBe("queued /");
+        expect(described.at(-1)).toBe("finished");
+        expect(described.filter(e => !e.startsWith("queued"))).toEqual([
+            "fetched /", "page-complete /",
+            "fetched /a", "fetched /a.png", "page-complete /a",
+            "error /missing 404", "page-complete /missing",
+            "finished"
+        ]);
+
+        const queued = events.find(e => (e.type === "queued") && e.url.endsWith("/a.png"));
+        expect(queued).toMatchObject({foundIn: site.url + "/a"});
+        expect((events.at(-1) as FinishedEvent).infos).toBe(infos);
+    });
+
+    test("the crawling can be paused and resumed", async () => {
+        const site = startSite({
+            "/": () => html(links(3, i => "/p" + i)),
+            "/p0": () => html("page"),
+            "/p1": () => html("page"),
+            "/p2": () => html("page")
+        });
+
+        let pathsWhilePaused: string[] = [];
+
+        const crawler: WebSiteCrawler = new WebSiteCrawler(site.url, crawlOptions({
+            concurrency: 1,
+
+            onUrlProcessed: infos => {
+                if (new URL(infos.sourceUrl).pathname !== "/") return;
+
+                crawler.pause();
+                expect(crawler.isPaused).toBe(true);
+
+                setTimeout(() => {
+                    pathsWhilePaused = pathsOf(site);
+                    crawler.resume();
+                    expect(crawler.isPaused).toBe(false);
+                }, 50);
+            }
+        }));
+
+        await crawler.start();
+
+        expect(pathsWhilePaused).toEqual(["/"]);
+        expect(pathsOf(site)).toEqual(["/", "/p0", "/p1", "/p2"]);
+    });
+
+    test("the crawler waits for a slow consumer", async () => {
+        const site = startSite({
+            "/": () => html(links(5, i => "/p" + i)),
+            ...Object.fromEntries([0, 1, 2, 3, 4].map(i => ["/p" + i, () => html("page")]))
+        });
+
+        const crawler = new WebSiteCrawler(site.url, crawlOptions({concurrency: 1}));
+        const events = crawler.events(3);
+        const finished = crawler.start();
+
+        await Bun.sleep(50);
+        expect(site.requests.length).toBeLessThan(6);
+
+        await readEvents(events);
+        await finished;
+        expect(site.requests.length).toBe(6);
+    });
+
+    test("a consumer stopping to read doesn't block the crawling", async () => {
+        const site = startSite({
+            "/": () => html(links(5, i => "/p" + i)),
+            ...Object.fromEntries([0, 1, 2, 3, 4].map(i => ["/p" + i, () => html("page")]))
+        });
+
+        const crawler = new WebSiteCrawler(site.url, crawlOptions({concurrency: 1}));
+        const events = crawler.events(1);
+        const finished = crawler.start();
+
+        for await (const event of events) {
+            if (event.type === "fetched") break;
+        }
+
+        await finished;
+        expect(site.requests.length).toBe(6);
+    });
+});
+
+describe("guessed links", () => {
+    test("the links to a non-HTML url are fixed, including in the root page", async () => {
+        const site = startSite({
+            "/": () => html(`<a href="/feed">feed</a><a href="/blog">blog</a>`),
+            "/blog": () => html(`<a href="/feed">feed</a>`),
+            "/feed": () => new Response("<rss></rss>", {headers: {"content-type": "application/rss+xml"}})
+        });
+
+        const outputDir = newOutputDir();
+        await new WebSiteCrawler(site.url, crawlOptions({outputDir})).start();
+
+        expect(await Bun.file(path.join(outputDir, "feed.xml")).text()).toBe("<rss></rss>");
+
+        const home = await Bun.file(path.join(outputDir, "index.html")).text();
+        expect(home).toContain(`href="feed.xml"`);
+        expect(home).not.toContain("feed/index.html");
+
+        const blog = await Bun.file(path.join(outputDir, "blog", "index.html")).text();
+        expect(blog).toContain(`href="../feed.xml"`);
+    });
+});
+
+describe("archives", () => {
+    const formats: ArchiveFormat[] = ["zip", "tar.gz"];
+
+    for (const format of formats) {
+        test("the links are fixed inside a " + format + " archive", async () => {
+            const site = startSite({
+                "/": () => html(`<a href="/feed">feed</a><a href="/old">old</a>`),
+                "/old": () => new Response(null, {status: 301, headers: {location: "/new"}}),
+                "/new": () => html("new"),
+                "/feed": () => new Response("<rss></rss>", {headers: {"content-type": "application/rss+xml"}})
+            });
+
+            const archivePath = path.join(newOutputDir(), "site." + format);
+            const cache = new ArchiveCache(archivePath);
+            await new WebSiteCrawler(site.url, crawlOptions({cache, rewriteRedirectedLinks: true})).start();
+
+            const files: Record<string, string> = {};
+            for await (const entry of readArchive(archivePath, format, () => true)) files[entry.name] = entry.data!.toString("utf-8");
+
+            expect(Object.keys(files).sort()).toEqual(["feed.xml", "index.html", "new/index.html", "sitemap.xml"]);
+            expect(files["index.html"]).toContain(`href="feed.xml"`);
+            expect(files["index.html"]).toContain(`href="new/index.html"`);
+
+            // The staging dir is removed once the archive is written.
+            expect(await fs.access(cache.stagingDir).then(() => true, () => false)).toBe(false);
+        });
+    }
+});
+
+describe("credentials", () => {
+    test("the credentials and the headers are only sent to the crawled website", async () => {
+        const other = startSite({
+            "/sitemap.xml": () => new Response(null, {status: 301, headers: {location: "/sitemap2.xml"}}),
+            "/sitemap2.xml": () => new Response("<urlset></urlset>", {headers: {"content-type": "application/xml"}})
+        });
+
+        const site = startSite({
+            "/": () => html(`<a href="/page">page</a>`),
+            "/page": () => html("page"),
+            "/robots.txt": () => new Response("User-agent: *\nAllow: /\nSitemap: " + other.url + "/sitemap.xml\n"),
+            "/sitemap.xml": () => new Response(null, {status: 302, headers: {location: other.url + "/sitemap2.xml"}})
+        });
+
+        const crawler = new WebSiteCrawler(site.url, {
+            auth: {type: "bearer", token: "secret"},
+            headers: {"x-api-key": "key"}
+        });
+
+        await crawler.start();
+        await (await crawler.fetchWithSession(other.url + "/sitemap2.xml")).text();
+
+        expect(pathsOf(site)).toContain("/page");
+        expect(pathsOf(other)).toEqual(["/sitemap.xml", "/sitemap2.xml", "/sitemap2.xml", "/sitemap2.xml"]);
+
+        site.requests.forEach(req => {
+            expect(req.headers.get("authorization")).toBe("Bearer secret");
+            expect(req.headers.get("x-api-key")).toBe("key");
+        });
+
+        other.requests.forEach(req => {
+            expect(req.headers.get("authorization")).toBeNull();
+            expect(req.headers.get("x-api-key")).toBeNull();
+            expect(req.headers.get("user-agent")).toBe("jopi-crawler");
+        });
+    });
+
+    test("the cookies are sent back with the next requests", async () => {
+        const site = startSite({
+            "/": () => html('<a href="/page">page</a>', {"set-cookie": "visitor=1; Path=/"}),
+            "/page": () => html("page")
+        });
+
+        await new WebSiteCrawler(site.url, crawlOptions()).start();
+        expect(site.requests[1].headers.get("cookie")).toBeNull();
+
+        site.requests.length = 0;
+        await new WebSiteCrawler(site.url, crawlOptions({useCookies: true})).start();
+        expect(site.requests.map(req => req.headers.get("cookie"))).toEqual([null, "visitor=1"]);
+    });
+
+    test("the session cookie of the login is used for the crawling", async () => {
+        const isLogged = (req: Request) => req.headers.get("cookie") === "session=abc";
+
+        const site = startSite({
+            "/login": async req => {
+                const form = await req.formData();
+                if ((req.method !== "POST") || (form.get("password") !== "pwd")) return new Response("bad password", {status: 403});
+                return new Response(null, {status: 302, headers: {location: "/", "set-cookie": "session=abc; Path=/; HttpOnly"}});
+            },
+
+            "/": req => html(isLogged(req) ? '<a href="/private">private</a>' : "login required"),
+            "/private": req => isLogged(req) ? html("private") : new Response("login required", {status: 401})
+        });
+
+        const crawler = new WebSiteCrawler(site.url, crawlOptions({
+            login: {url: site.url + "/login", form: {user: "me", password: "pwd"}}
+        }));
+
+        await crawler.start();
+
+        expect(pathsOf(site)).toEqual(["/login", "/", "/", "/private"]);
+        expect(site.requests[3].headers.get("cookie")).toBe("session=abc");
+        expect(crawler.cookieJar.getAll().map(c => c.name)).toEqual(["session"]);
+    });
+
+    test("the crawling doesn't start if the login fails", async () => {
+        const site = startSite({
+            "/login": () => new Response("bad password", {status: 403}),
+            "/": () => html("home")
+        });
+
+        const crawler = new WebSiteCrawler(site.url, crawlOptions({
+            login: {url: site.url + "/login", form: {user: "me", password: "bad"}}
+        }));
+
+        await expect(crawler.start()).rejects.toThrow("Login failed");
+        expect(pathsOf(site)).toEqual(["/login"]);
+    });
+
+    test("the credentials of a UrlMapping target are only sent to this target", async () => {
+        const api = startSite({
+            "/api/menu": req => new Response(req.headers.get("authorization") || "none", {headers: {"content-type": "text/plain"}})
+        });
+
+        const site = startSite({
+            "/": () => html(`<a href="/api/menu">menu</a>`)
+        });
+
+        const urlMapping = new UrlMapping(site.url).mapURL("/api", api.url, undefined, {
+            auth: {type: "basic", username: "me", password: "pwd"}
+        });
+
+        await new WebSiteCrawler(site.url, crawlOptions({urlMapping, auth: {type: "bearer", token: "secret"}})).start();
+
+        expect(pathsOf(api)).toEqual(["/api/menu"]);
+        expect(api.requests.map(req => req.headers.get("authorization"))).toEqual(["Basic " + btoa("me:pwd")]);
+        expect(site.requests.map(req => req.headers.get("authorization"))).toEqual(["Bearer secret"]);
+    });
+});
+
+describe("link graph", () => {
+    test("the links to the others websites are recorded as external", async () => {
+        const site = startSite({
+            "/": () => html(`<a href="/page">page</a><a href="https://other-site/a#top">other</a><a href="mailto:me@my-site">mail</a>`
+                + `<link rel="stylesheet" href="/style.css">`),
+            "/page": () => html("page"),
+            "/style.css": () => new Response("body{background:url(//cdn.other-site/bg.png)}", {headers: {"content-type": "text/css"}})
+        });
+
+        const linkGraph = new LinkGraph(site.url);
+        await new WebSiteCrawler(site.url, crawlOptions({linkGraph})).start();
+
+        expect(linkGraph.getDependencies("/").map(e => [e.target, !!e.external])).toEqual([
+            [site.url + "/page", false],
+            ["https://other-site/a", true],
+            [site.url + "/style.css", false]
+        ]);
+
+        expect(linkGraph.getExternalLinks().map(e => e.target)).toEqual(["https://other-site/a", "http://cdn.other-site/bg.png"]);
+        expect(linkGraph.isPage("https://other-site/a")).toBe(false);
+    });
+});
@@ -1,23 +1,69 @@
 import {DirectFileCache} from "./directFileCache.ts";
-import {UrlMapping} from "./urlMapping.ts";
+import {getCacheFilePath} from "./cacheFilePath.ts";
+import {UrlMapping, type UrlMappingTargetOptions} from "./urlMapping.ts";
 import * as cheerio from 'cheerio';
 import {getErrorMessage} from "jopi-node-space/ns_tools";
 
-// @ts-ignore no ts definition
-import parseCssUrls from "css-url-parser";
-import {applyDefaults, tick} from "./utils.ts";
+import {applyDefaults, ONE_MINUTE, ONE_SECOND, tick} from "./utils.ts";
+import {OriginLimiter, Semaphore} from "./scheduler.ts";
+import {RobotsTxt} from "./robots.ts";
+import {buildSitemap, decodeSitemapContent, parseSitemap} from "./sitemap.ts";
+import {UrlRules} from "./urlRules.ts";
+import {replaceCssUrls} from "./cssUrls.ts";
+import {addQueryToFileName, encodeQueryString} from "./queryStringNaming.ts";
+import {getExtensionForContentType, isHtmlContentType} from "./mimeTypes.ts";
+import {CHECKPOINT_VERSION, type CrawlerCheckpoint, type CrawlerCheckpointGroup, readCheckpoint, writeCheckpoint} from "./checkpoint.ts";
 import {
-    type CrawlerCache, type CrawlerFetchResponse,
-    type OnCrawlingFinishedInfos, ProcessUrlResult, UrlSortTools, type WebSiteCrawlerOptions
+    buildNetlifyRedirects,
+    buildNginxRedirectMap,
+    buildRedirectStub,
+    type RecordedRedirect,
+    type RedirectExportFormat,
+    RedirectMap,
+    type ResolvedRedirect
+} from "./redirects.ts";
+import {describeElement, LinkChecker, type LinkReference} from "./linkChecker.ts";
+import {buildStatisticsHtmlReport, CrawlStatisticsCollector} from "./crawlStatistics.ts";
+import {gDefaultRetryPolicy, getRetryDelay_ms, isThrottlingStatus, parseRetryAfter_ms, type RetryPolicy} from "./retryPolicy.ts";
+import {CookieJar} from "./cookieJar.ts";
+import {limitBodySize, RequestTimeoutError, ResponseTooLargeError, watchBodyReading} from "./requestLimits.ts";
+import {canonicalizeUrl} from "./urlCanonicalization.ts";
+import {BfsFrontier, type CrawlerFrontier, type FrontierPage} from "./frontier.ts";
+import {type CrawlerEvent, CrawlerEventQueue} from "./crawlerEvents.ts";
+import {getAuthorizationHeader, type LoginFunction, type LoginRequest, mergeHeaders} from "./authentication.ts";
+import {
+    type CrawlerCache, type CrawlerCacheMetadata, type CrawlerFetchResponse, type CrawlLimit,
+    type OnCrawlingFinishedInfos, ProcessUrlResult, type UrlProcessedInfos, UrlSortTools, type WebSiteCrawlerOptions
 } from "./common.ts";
 
-interface UrlGroup {
-    url: string;
+interface UrlGroup extends FrontierPage {
     stack?: string[];
+
+    /**
+     * The state of the main url, once processed.
+     */
+    state?: ProcessUrlResult;
+
+    /**
+     * The resources which are currently processed.
+     */
+    pendingResources?: string[];
 }
 
 export class WebSiteCrawler {
-    private readonly urlDone: string[] = [];
+    private readonly urlDone = new Set<string>();
+
+    /**
+     * The pages having a <link rel="canonical"> pointing to another url.
+     * Is: url of the page --> canonical url.
+     */
+    private readonly canonicalAliases = new Map<string, string>();
+
+    /**
+     * The priority and the last modification of the pages found in the sitemaps.
+     * Is given to the frontier when the page is queued.
+     */
+    private readonly sitemapInfos = new Map<string, {sitemapPriority?: number, lastModified?: number}>();
 
     private readonly newWebSite_basePath: string;
     private readonly newWebSite_lcBasePath: string;
@@ -27,15 +73,86 @@ export class WebSiteCrawler {
     private readonly requiredPrefix2: string;
 
     private isStarted = false;
+    private mustStop = false;
+
+    /**
+     * Allow stopping the crawling. Is given to start or resume.
+     */
+    private abortSignal?: AbortSignal;
+
+    /**
+     * Is resolved when the crawling is stopped with the abort signal.
+     */
+    private abortPromise?: Promise<void>;
+
+    /**
+     * Is set while the crawling is paused, and resolved by resume.
+     */
+    private pausePromise?: Promise<void>;
+    private resolvePause?: () => void;
+
+    /**
+     * The consumers of the events, see events().
+     */
+    private readonly eventQueues: CrawlerEventQueue[] = [];
+    private isFinished = false;
+
+    private startDate = 0;
+    private pageCount = 0;
+    private resourceCount = 0;
+
+    /**
+     * The limit which has ended the crawling, if any.
+     */
+    private limitReached?: CrawlLimit;
 
     private readonly options: WebSiteCrawlerOptions;
     private readonly cache?: CrawlerCache;
 
-    private currentGroup: UrlGroup = {url:"", stack:[]};
-    private readonly groupStack: UrlGroup[] = [];
+    private readonly frontier: CrawlerFrontier;
+    private readonly runningGroups = new Set<UrlGroup>();
+    private readonly retryCounts: Record<string, number> = {};
+
+    private entryPoint = "";
+    private lastCheckpointDate = 0;
 
     private urlCount: number = 1;
 
+    private readonly fetchSemaphore: Semaphore;
+    private readonly originLimiters: Record<string, OriginLimiter> = {};
+    private readonly robotsByOrigin: Record<string, RobotsTxt> = {};
+    private readonly pagesDownloaded: string[] = [];
+
+    /**
+     * The redirections found.
+     */
+    private readonly redirects = new RedirectMap();
+
+    /**
+     * Is set if the option linkCheck is enabled.
+     */
+    private readonly linkChecker?: LinkChecker;
+
+    private readonly statistics = new CrawlStatisticsCollector();
+    private readonly urlRules?: UrlRules;
+
+    /**
+     * The cookies set by the servers.
+     * Is only used if the option useCookies or login is set.
+     */
+    public readonly cookieJar = new CookieJar();
+
+    /**
+     * The content-type of the urls already fetched.
+     */
+    private readonly contentTypes = new Map<string, string>();
+
+    /**
+     * The links written before knowing the content-type of their target.
+     * Is: target url --> (url of the page containing the link --> link written).
+     */
+    private readonly guessedLinks = new Map<string, Map<string, string>>();
+
     /**
      * Create a new crawler instance.
      *
@@ -47,10 +164,23 @@ export class WebSiteCrawler {
     constructor(sourceWebSite: string, options?: WebSiteCrawlerOptions) {
         options = applyDefaults(options, {
             requireRelocatableUrl: true,
+            concurrency: 1,
+            userAgent: "jopi-crawler",
+            generateSitemap: true,
+            checkpointInterval_ms: ONE_MINUTE,
+            connectTimeout_ms: 30 * ONE_SECOND,
+            readTimeout_ms: ONE_MINUTE,
+            useConditionalRequests: true
         });
 
         options = this.options = {...options};
 
+        if (!(options.concurrency! >= 1)) {
+            throw new Error("Crawler - The option concurrency must be 1 or more: " + options.concurrency);
+        }
+
+        this.frontier = options.frontier || new BfsFrontier();
+
         let newWebSiteUrl = new URL(options.newWebSiteUrl || sourceWebSite).origin;
         this.newWebSite_basePath = newWebSiteUrl;
         this.newWebSite_lcBasePath = newWebSiteUrl.toLowerCase();
@@ -86,53 +216,375 @@ export class WebSiteCrawler {
             })
         }
 
-        if (options.cache) {
+        if (options.linkCheck) {
+            // Nothing is stored when checking the links.
+            this.linkChecker = new LinkChecker(options.linkCheck === true ? {} : options.linkCheck,
+                options.userAgent!, options.concurrency!);
+        }
+        else if (options.cache) {
             this.cache = options.cache;
         }
         else if (options.outputDir) {
-            this.cache = new DirectFileCache(options.outputDir);
+            this.cache = new DirectFileCache(options.outputDir, {
+                metadataDir: options.metadataDir,
+                queryStringNaming: options.queryStringNaming,
+                mimeExtensions: options.mimeExtensions
+            });
+        }
+
+        this.fetchSemaphore = new Semaphore(options.concurrency!);
+
+        if (options.urlRules || options.forbiddenUrls) {
+            const rules = [...(options.urlRules || [])];
+
+            if (options.forbiddenUrls) {
+                options.forbiddenUrls.forEach(prefix => rules.push({
+                    action: "exclude",
+                    regExp: new RegExp("^" + escapeRegExp(prefix)),
+                    name: "forbiddenUrls " + prefix
+                }));
+            }
+
+            this.urlRules = new UrlRules(rules);
         }
     }
 
     /**
      * Start the processing
+     *
+     * @param entryPoint
+     *      The first url to crawl. Default is the root of the website.
+     * @param signal
+     *      Allow stopping the crawling. The urls being fetched are aborted,
+     *      and the urls not processed are returned in "remainingStack".
      */
-    public async start(entryPoint?: string): Promise<OnCrawlingFinishedInfos> {
+    public async start(entryPoint?: string, signal?: AbortSignal): Promise<OnCrawlingFinishedInfos> {
+        this.statistics.begin();
+        this.setAbortSignal(signal);
+        this.startDate = Date.now();
+
+        if (this.options.login) {
+            await this.login(this.options.login);
+        }
+
         if (!entryPoint) {
             entryPoint = this.newWebSite_basePath;
         }
 
-        const newGroup = {url: entryPoint, stack: []};
-        this.groupStack.push(newGroup);
-        this.currentGroup = newGroup;
+        // Allow the links to the entry point to be recognized as already found.
+        entryPoint = canonicalizeUrl(entryPoint);
+        entryPoint = this.cleanUpUrlAux(entryPoint, this.newWebSite_basePath) || entryPoint;
+        this.entryPoint = entryPoint;
+        this.urlDone.add(entryPoint);
+
+        if (!this.options.ignoreRobotsTxt) {
+            await this.loadRobotsTxt();
+        }
+
+        const newGroup: UrlGroup = {url: entryPoint, stack: [], depth: 0};
+
+        if (this.isBlockedByRobots(entryPoint)) {
+            this.sendUrlSkipped(entryPoint, newGroup, ProcessUrlResult.BLOCKED_BY_ROBOTS);
+        } else {
+            this.frontier.push([newGroup]);
+            this.pageCount++;
+            this.emit({type: "queued", url: entryPoint});
+        }
 
         if (this.options.scanThisUrls) {
             for (let i = 0; i < this.options.scanThisUrls.length; i++) {
-                this.pushUrl(this.options.scanThisUrls[i]);
+                this.pushUrl(this.options.scanThisUrls[i], newGroup);
             }
         }
 
+        if (!this.options.ignoreSitemaps) {
+            await this.loadSitemaps(newGroup);
+        }
+
+        return this.run();
+    }
+
+    /**
+     * Continue a crawling paused with pause.
+     */
+    public resume(): void;
+
+    /**
+     * Resume a crawling from a checkpoint file.
+     * The crawler must have been created with the same options as the interrupted crawler.
+     *
+     * @param checkpointPath
+     *      The file saved by the crawler when the "checkpointPath" option is set.
+     *      If this option isn't set, this file will be used for the new checkpoints.
+     * @param signal
+     *      Allow stopping the crawling, as with start.
+     */
+    public resume(checkpointPath: string, signal?: AbortSignal): Promise<OnCrawlingFinishedInfos>;
+
+    public resume(checkpointPath?: string, signal?: AbortSignal): Promise<OnCrawlingFinishedInfos>|void {
+        if (checkpointPath === undefined) {
+            const resolve = this.resolvePause;
+            this.pausePromise = undefined;
+            this.resolvePause = undefined;
+            if (resolve) resolve();
+            return;
+        }
+
+        return this.resumeFromCheckpoint(checkpointPath, signal);
+    }
+
+    private async resumeFromCheckpoint(checkpointPath: string, signal?: AbortSignal): Promise<OnCrawlingFinishedInfos> {
+        this.statistics.begin();
+        this.setAbortSignal(signal);
+        this.startDate = Date.now();
+        const checkpoint = await readCheckpoint(checkpointPath);
+
+        // The session of the previous run is probably expired.
+        if (this.options.login) {
+            await this.login(this.options.login);
+        }
+
+        if (!this.options.checkpointPath) {
+            this.options.checkpointPath = checkpointPath;
+        }
+
+        this.entryPoint = checkpoint.entryPoint;
+        this.urlCount = checkpoint.urlCount;
+        checkpoint.urlDone.forEach(url => this.urlDone.add(url));
+        this.frontier.push(checkpoint.frontier);
+
+        // The resources aren't known, only the pages.
+        this.pageCount = checkpoint.pagesDownloaded.length + checkpoint.frontier.filter(g => g.state === undefined).length;
+        this.pagesDownloaded.push(...checkpoint.pagesDownloaded);
+        Object.assign(this.retryCounts, checkpoint.retryCounts);
+
+        if (checkpoint.redirects) {
+            checkpoint.redirects.forEach(r => this.redirects.add(r.from, r.to, r.status));
+        }
+
+        // Allow fixing the links and writing the sitemap of the whole crawling at the end.
+        for (const url in checkpoint.contentTypes) this.contentTypes.set(url, checkpoint.contentTypes[url]);
+        for (const url in checkpoint.guessedLinks) this.guessedLinks.set(url, new Map(Object.entries(checkpoint.guessedLinks[url])));
+        for (const url in checkpoint.canonicalAliases) this.canonicalAliases.set(url, checkpoint.canonicalAliases[url]);
+        for (const url in checkpoint.sitemapInfos) this.sitemapInfos.set(url, checkpoint.sitemapInfos[url]);
+
+        if (checkpoint.statistics) {
+            this.statistics.restoreState(checkpoint.statistics);
+        }
+
+        if (!this.options.ignoreRobotsTxt) {
+            await this.loadRobotsTxt();
+        }
+
+        return this.run();
+    }
+
+    private async run(): Promise<OnCrawlingFinishedInfos> {
+        this.lastCheckpointDate = Date.now();
+
         await this.processStack();
 
+        if (this.options.checkpointPath) {
+            await this.saveCheckpoint();
+        }
+
+        if (this.cache && this.cache.rewriteFile && this.options.requireRelocatableUrl) {
+            await this.fixGuessedLinks(this.cache);
+        }
+
+        if (this.cache && this.cache.rewriteFile && this.options.rewriteRedirectedLinks && this.redirects.size) {
+            await this.rewriteRedirectedLinks(this.cache);
+        }
+
+        if (this.cache && this.cache.addFile && this.options.exportRedirects && this.redirects.size) {
+            await this.exportRedirects(this.cache, this.options.exportRedirects);
+        }
+
+        if (this.cache && this.cache.addFile && this.options.generateSitemap) {
+            await this.writeSitemap(this.cache);
+        }
+
+        const statistics = this.statistics.getStatistics();
+
+        if (this.cache && this.cache.addFile && this.options.statisticsReport) {
+            if (this.options.statisticsReport.includes("json")) {
+                await this.cache.addFile("crawl-statistics.json", JSON.stringify(statistics, null, 4));
+            }
+
+            if (this.options.statisticsReport.includes("html")) {
+                await this.cache.addFile("crawl-statistics.html", buildStatisticsHtmlReport(statistics));
+            }
+        }
+
+        if (this.cache && this.cache.close) {
+            await this.cache.close();
+        }
+
         const finishedInfos: OnCrawlingFinishedInfos = {
-            remainingStack: this.groupStack.map(g => g.url)
+            remainingStack: this.getRemainingUrls(),
+            isCancelled: this.isCancelled(),
+            limitReached: this.limitReached,
+            checkpointPath: this.options.checkpointPath,
+            statistics
         };
 
+        if (this.linkChecker) {
+            finishedInfos.linkCheckReport = await this.linkChecker.finish(this.entryPoint);
+        }
+
         if (this.options.onFinished) {
             this.options.onFinished(finishedInfos);
         }
 
+        this.emit({type: "finished", infos: finishedInfos});
+
+        this.isFinished = true;
+        this.eventQueues.splice(0).forEach(queue => queue.end());
+
         return finishedInfos;
     }
 
+    /**
+     * Returns the events of the crawling, which can be read with "for await".
+     * Must be called before start or resume.
+     *
+     * When the consumer is slow, the crawler waits before fetching the next urls,
+     * which allows storing the results at our own pace.
+     *
+     * @param highWaterMark
+     *      The number of events waiting from which the crawler waits.
+     *      Default is 100.
+     */
+    public events(highWaterMark: number = 100): AsyncIterable<CrawlerEvent> {
+        const queue: CrawlerEventQueue = new CrawlerEventQueue(highWaterMark, () => {
+            const idx = this.eventQueues.indexOf(queue);
+            if (idx !== -1) this.eventQueues.splice(idx, 1);
+        });
+
+        if (this.isFinished) queue.end();
+        else this.eventQueues.push(queue);
+
+        return queue;
+    }
+
+    /**
+     * Stop fetching new urls, until resume() is called without argument.
+     * The urls being fetched are finished.
+     */
+    public pause() {
+        if (this.pausePromise) return;
+        this.pausePromise = new Promise<void>(resolve => this.resolvePause = resolve);
+    }
+
+    public get isPaused(): boolean {
+        return this.pausePromise !== undefined;
+    }
+
+    private emit(event: CrawlerEvent) {
+        this.eventQueues.forEach(queue => queue.push(event));
+    }
+
+    /**
+     * Wait while the crawling is paused, or while an events consumer is too slow.
+     */
+    private async waitBeforeFetching(): Promise<void> {
+        while (this.pausePromise || this.eventQueues.some(queue => queue.isFull())) {
+            if (this.isCancelled()) return;
+
+            const promise = this.pausePromise || Promise.all(this.eventQueues.map(queue => queue.waitForSpace()));
+            await (this.abortPromise ? Promise.race([promise, this.abortPromise]) : promise);
+        }
+    }
+
+    private setAbortSignal(signal: AbortSignal|undefined) {
+        this.abortSignal = signal;
+        this.abortPromise = undefined;
+
+        if (signal) {
+            this.abortPromise = new Promise<void>(resolve => {
+                if (signal.aborted) resolve();
+                else signal.addEventListener("abort", () => resolve(), {once: true});
+            });
+        }
+    }
+
+    /**
+     * Wait, or stop waiting when the crawling is stopped.
+     */
+    private sleep(delay_ms: number): Promise<void> {
+        const signal = this.abortSignal;
+        if (!signal) return tick(delay_ms);
+
+        return new Promise<void>(resolve => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+
+            const timer = setTimeout(() => {
+                signal.removeEventListener("abort", onAbort);
+                resolve();
+            }, delay_ms);
+
+            signal.addEventListener("abort", onAbort, {once: true});
+        });
+    }
+
+    private isCancelled(): boolean {
+        return !!this.abortSignal && this.abortSignal.aborted;
+    }
+
+    /**
+     * Returns true if no new url must be fetched,
+     * because the crawling is cancelled or a limit is reached.
+     */
+    private isStopping(): boolean {
+        if (this.isCancelled()) return true;
+
+        if (this.options.maxBytes && (this.statistics.getTotalBytes() >= this.options.maxBytes)) {
+            this.setLimitReached("maxBytes");
+        }
+
+        if (this.options.maxDuration_ms && (Date.now() - this.startDate >= this.options.maxDuration_ms)) {
+            this.setLimitReached("maxDuration");
+        }
+
+        return (this.limitReached === "maxBytes") || (this.limitReached === "maxDuration");
+    }
+
+    /**
+     * Remember the limit which has ended the crawling.
+     * The first one is kept, except for maxDepth which doesn't end the crawling.
+     */
+    private setLimitReached(limit: CrawlLimit) {
+        if (!this.limitReached || (this.limitReached === "maxDepth")) {
+            this.limitReached = limit;
+        }
+    }
+
+    /**
+     * Returns the urls which haven't been processed:
+     * the pages waiting and the resources of the pages stopped before the end.
+     */
+    private getRemainingUrls(): string[] {
+        const urls: string[] = [];
+
+        this.frontier.getAll().forEach((group: UrlGroup) => {
+            if (group.state === undefined) urls.push(group.url);
+            if (group.stack) urls.push(...group.stack);
+        });
+
+        return urls;
+    }
+
     /**
      * Take an url and clean this url.
      * - Resolve relative url.
      * - Exclude special url ("mailto:", "tel:", ...)
      * - Exclude anchor url (starts with #).
      */
-    private _cleanUpUrl(url: string | null): string | null {
-        return this.cleanUpUrlAux(url, false);
+    private _cleanUpUrl(url: string | null, baseUrl: string): string | null {
+        return this.cleanUpUrlAux(url, baseUrl);
     }
 
     /**
@@ -142,10 +594,17 @@ export class WebSiteCrawler {
      * If I have "myImage.jpg" then it's https//my/css/dir/myImage.jpg.
      */
     private cleanUpCssUrl(url: string, baseUrl: string): string | null {
-        return this.cleanUpUrlAux(url, true, baseUrl);
+        return this.cleanUpUrlAux(url, baseUrl);
     }
 
-    private cleanUpUrlAux(url: string | null, isCss: boolean, currentUrl?: string): string | null {
+    /**
+     * @param url
+     *      The url to clean up.
+     * @param baseUrl
+     *      The url used to resolve the relative urls.
+     *      It's the url of the page, or his <base href>, or the url of the CSS file.
+     */
+    private cleanUpUrlAux(url: string | null, baseUrl: string): string | null {
         if (!url) return null;
 
         url = url.trim();
@@ -156,10 +615,9 @@ export class WebSiteCrawler {
         // Convert to an absolute url.
         if (!url.includes("://")) {
             if (url[0]==="?") {
-                let currentUrl = this.currentGroup.url;
-                let idx = currentUrl.indexOf("?");
-                if (idx!==-1) currentUrl = currentUrl.substring(0, idx);
-                url = currentUrl + url;
+                let idx = baseUrl.indexOf("?");
+                if (idx!==-1) baseUrl = baseUrl.substring(0, idx);
+                url = baseUrl + url;
             }
             else if (url.includes(":")) {
                 if (url.startsWith("data:")) return null;
@@ -176,11 +634,7 @@ export class WebSiteCrawler {
             } else if (url[0] === "/") {
                 url = resolveRelativeUrl(url, this.newWebSite_urlInfos);
             } else {
-                if (isCss) {
-                    url = resolveRelativeUrl(url, new URL(currentUrl!));
-                } else {
-                    url = resolveRelativeUrl(url, this.newWebSite_urlInfos);
-                }
+                url = resolveRelativeUrl(url, new URL(baseUrl));
             }
         } else {
             url = this.rewriteSourceSiteUrl(url);
@@ -190,58 +644,606 @@ export class WebSiteCrawler {
             return null;
         }
 
-        return url.trim();
+        url = canonicalizeUrl(url.trim(), this.options.canonicalization);
+        return this.canonicalAliases.get(url) || url;
+    }
+
+    /**
+     * Is called when we want to add an url to the processing queue.
+     * A call to cleanUpUrl must have been done before.
+     *
+     * @param url
+     *      The url to add.
+     * @param group
+     *      The group of the page from which this url has been found.
+     * @param foundUrls
+     *      If set, the cleaned url is added to this list.
+     * @param baseUrl
+     *      The url used to resolve the relative urls.
+     *      Default is the url of the group.
+     */
+    private pushUrl(url: string | null, group: UrlGroup, foundUrls?: string[], baseUrl: string = group.url): string {
+        if (!url) return "";
+
+        url = this._cleanUpUrl(url, baseUrl);
+        if (!url) return "";
+
+        if (foundUrls && !foundUrls.includes(url)) foundUrls.push(url);
+
+        if (this.urlDone.has(url)) return url;
+        this.urlDone.add(url);
+
+        if (this.isBlockedByRobots(url)) {
+            this.sendUrlSkipped(url, group, ProcessUrlResult.BLOCKED_BY_ROBOTS);
+            return url;
+        }
+
+        if (this.urlRules) {
+            const checkResult = this.urlRules.check(url.substring(this.newWebSite_basePath.length), this.isResource(url));
+
+            if (!checkResult.isAllowed) {
+                this.sendUrlSkipped(url, group, ProcessUrlResult.EXCLUDED, checkResult.decidedBy);
+                return url;
+            }
+        }
+
+        if (this.options.canDownload) {
+            if (!this.options.canDownload(url.substring(this.requiredPrefix.length), this.isResource(url))) {
+                this.sendUrlSkipped(url, group, ProcessUrlResult.EXCLUDED, "canDownload");
+                return url;
+            }
+        }
+
+        if (!group.stack) group.stack = [];
+        group.stack.push(url);
+
+        this.emit({type: "queued", url, foundIn: group.url});
+        return url;
+    }
+
+    /**
+     * Is like pushUrl, but also add the link to the link graph.
+     *
+     * @param sourceUrl
+     *      The url of the page (or CSS) containing the link.
+     * @param via
+     *      From where the link comes (ex: "img[src]").
+     * @param baseUrl
+     *      The url used to resolve the relative urls.
+     *      Default is the source url.
+     */
+    private addLink(url: string, sourceUrl: string, group: UrlGroup, foundUrls: string[]|undefined, via: string, baseUrl: string = sourceUrl): string {
+        const cleanUrl = this.pushUrl(url, group, foundUrls, baseUrl);
+
+        if (!cleanUrl) this.addExternalLink(url, sourceUrl, via, baseUrl);
+        else if (this.options.linkGraph) this.options.linkGraph.addEdge(sourceUrl, cleanUrl, via);
+
+        return cleanUrl;
+    }
+
+    /**
+     * Add a link to another website to the link graph.
+     * Does nothing if it's not an http link (ex: "mailto:").
+     */
+    private addExternalLink(url: string, sourceUrl: string, via: string, baseUrl: string) {
+        if (!this.options.linkGraph) return;
+
+        const externalUrl = this.getExternalUrl(url, baseUrl);
+        if (externalUrl) this.options.linkGraph.addEdge(sourceUrl, externalUrl, via, true);
+    }
+
+    /**
+     * Returns the absolute url of a link to another website.
+     * Returns undefined if it's not an http link (ex: "mailto:"), or if it's a link to this website.
+     */
+    private getExternalUrl(url: string, baseUrl: string): string|undefined {
+        let urlInfos: URL;
+
+        try {
+            urlInfos = new URL(url.trim(), baseUrl);
+        }
+        catch {
+            return undefined;
+        }
+
+        if ((urlInfos.protocol !== "http:") && (urlInfos.protocol !== "https:")) return undefined;
+
+        urlInfos.hash = "";
+        const externalUrl = urlInfos.href;
+
+        if (externalUrl.toLowerCase().startsWith(this.requiredPrefix)) return undefined;
+        return externalUrl;
+    }
+
+    /**
+     * Signal an url which isn't fetched because a rule forbids it.
+     */
+    private sendUrlSkipped(url: string, group: UrlGroup, state: ProcessUrlResult, excludedBy?: string) {
+        this.statistics.addUrlState(state);
+        if (!this.options.onUrlProcessed && !this.eventQueues.length) return;
+
+        const localUrl = url.substring(this.newWebSite_basePath.length);
+        const date = Date.now();
+
+        const infos: UrlProcessedInfos = {
+            sourceUrl: url, requestedByUrl: group.url,
+            state, retryCount: 0,
+            transformedUrl: url,
+            localUrl,
+            urlCount: this.urlCount,
+            date, elapsed: 0,
+            excludedBy
+        };
+
+        if (this.options.onUrlProcessed) this.options.onUrlProcessed(infos);
+        this.emit({type: "skipped", url, infos});
+    }
+
+    /**
+     * Returns the origin of the entry point and the origins known by the url mapping.
+     * These are the servers which are crawled.
+     */
+    private getCrawledOrigins(): string[] {
+        const origins: string[] = [];
+
+        const defaultTarget = this.options.urlMapping!.resolveURL("/");
+        if (defaultTarget) origins.push(new URL(defaultTarget.url).origin);
+
+        this.options.urlMapping!.getKnownOrigins().forEach(origin => {
+            if (!origins.includes(origin)) origins.push(origin);
+        });
+
+        return origins;
+    }
+
+    /**
+     * Load the robots.txt of the entry origin
+     * and of all the origins known by the url mapping.
+     */
+    private async loadRobotsTxt(): Promise<void> {
+        for (const origin of this.getCrawledOrigins()) {
+            if (this.robotsByOrigin[origin]) continue;
+            this.robotsByOrigin[origin] = await this.fetchRobotsTxt(origin);
+        }
+    }
+
+    private async fetchRobotsTxt(origin: string): Promise<RobotsTxt> {
+        const url = origin + "/robots.txt";
+
+        try {
+            const res = await this.fetchFollowingRedirects(url, origin + "/");
+            if (res.status === 200) return RobotsTxt.parse(await res.text());
+
+            // The server is in error: we must assume all is forbidden.
+            if (res.status >= 500) return RobotsTxt.disallowAll();
+        }
+        catch (e: any) {
+            console.error("Crawler - Can't fetch robots.txt:", url);
+            console.error("|--> Message:", getErrorMessage(e));
+        }
+
+        return RobotsTxt.allowAll();
+    }
+
+    /**
+     * Fetch an url and follow the redirections, with a max of 5 hops.
+     * Is used for the technical files, like robots.txt and sitemaps.
+     */
+    private async fetchFollowingRedirects(url: string, referer: string): Promise<CrawlerFetchResponse> {
+        let res = await this.doFetch(url, referer, this.getOriginRequestHeaders(url));
+
+        for (let i = 0; i < 5; i++) {
+            if ((res.status < 300) || (res.status >= 400)) break;
+
+            const location = res.headers.get("Location");
+            if (!location) break;
+
+            url = new URL(location, url).toString();
+            res = await this.doFetch(url, referer, this.getOriginRequestHeaders(url));
+        }
+
+        return res;
+    }
+
+    /**
+     * Fetch an url with the headers, the credentials and the cookies of the crawler.
+     * The cookies returned are stored. The redirections aren't followed.
+     * Allow doing a custom login.
+     */
+    public async fetchWithSession(url: string, init?: {method?: string, body?: string, headers?: Record<string, string>}): Promise<Response> {
+        const res = await fetch(url, {
+            method: init?.method || "GET",
+            body: init?.body,
+            redirect: "manual",
+            headers: this.getOriginRequestHeaders(url, init?.headers)
+        });
+
+        if (this.isUsingCookies()) {
+            this.cookieJar.setCookies(url, res.headers.getSetCookie());
+        }
+
+        return res;
+    }
+
+    /**
+     * Do the login, which stores the session cookies.
+     * Throws an error if the login fails, since crawling without session is useless.
+     */
+    private async login(login: LoginRequest | LoginFunction): Promise<void> {
+        if (login instanceof Function) {
+            await login(this);
+            return;
+        }
+
+        const headers: Record<string, string> = {...login.headers};
+        let body: string|undefined;
+
+        if (login.form) {
+            body = new URLSearchParams(login.form).toString();
+            headers["content-type"] = "application/x-www-form-urlencoded";
+        } else if (login.json !== undefined) {
+            body = JSON.stringify(login.json);
+            headers["content-type"] = "application/json";
+        }
+
+        let url = login.url;
+        let res = await this.fetchWithSession(url, {method: login.method || "POST", body, headers});
+
+        // A login form often redirects to the home page,
+        // and the session cookie can be set by any of these pages.
+        //
+        for (let i = 0; i < 5; i++) {
+            if ((res.status < 300) || (res.status >= 400)) break;
+
+            const location = res.headers.get("Location");
+            if (!location) break;
+
+            if (res.body) await res.body.cancel();
+
+            url = new URL(location, url).toString();
+            res = await this.fetchWithSession(url);
+        }
+
+        if (res.body) await res.body.cancel();
+
+        const isSuccess = login.isSuccess ? login.isSuccess(res.status, res.headers) : (res.status < 400);
+
+        if (!isSuccess) {
+            throw new Error("Crawler - Login failed: " + login.url + " (status " + res.status + ")");
+        }
+    }
+
+    /**
+     * Search the sitemaps of all the known origins and add their urls to the group.
+     * The sitemaps are found inside the robots.txt, or at "/sitemap.xml".
+     */
+    private async loadSitemaps(group: UrlGroup): Promise<void> {
+        const toFetch: string[] = [];
+
+        for (const origin of this.getCrawledOrigins()) {
+            const robots = this.robotsByOrigin[origin];
+            if (robots) toFetch.push(...robots.sitemaps);
+            toFetch.push(origin + "/sitemap.xml");
+        }
+
+        const alreadyFetched: string[] = [];
+
+        // Avoid an infinite loop with a buggy sitemap index.
+        const maxSitemaps = 1000;
+
+        while (toFetch.length && (alreadyFetched.length < maxSitemaps)) {
+            const sitemapUrl = toFetch.shift()!;
+            if (alreadyFetched.includes(sitemapUrl)) continue;
+            alreadyFetched.push(sitemapUrl);
+
+            try {
+                const res = await this.fetchFollowingRedirects(sitemapUrl, sitemapUrl);
+                if ((res.status !== 200) || !res.body) continue;
+
+                const content = new Uint8Array(await new Response(res.body).arrayBuffer());
+                const sitemap = parseSitemap(decodeSitemapContent(content));
+
+                toFetch.push(...sitemap.sitemaps);
+                sitemap.entries.forEach(entry => {
+                    const url = this.pushUrl(entry.loc, group);
+                    if (!url || ((entry.priority === undefined) && !entry.lastmod)) return;
+
+                    const lastModified = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+                    this.sitemapInfos.set(url, {sitemapPriority: entry.priority, lastModified: isNaN(lastModified) ? undefined : lastModified});
+                });
+            }
+            catch (e: any) {
+                console.error("Crawler - Can't read sitemap:", sitemapUrl);
+                console.error("|--> Message:", getErrorMessage(e));
+            }
+        }
+    }
+
+    /**
+     * Returns the infos found in the sitemaps for this page, and forget them.
+     */
+    private takeSitemapInfos(url: string): {sitemapPriority?: number, lastModified?: number}|undefined {
+        const infos = this.sitemapInfos.get(url);
+        if (infos) this.sitemapInfos.delete(url);
+        return infos;
+    }
+
+    /**
+     * Remember the content-type of an url.
+     * Allow choosing the name of the file when the url has no extension.
+     */
+    private setContentType(url: string, contentType: string) {
+        this.contentTypes.set(url, contentType);
+
+        // The links written were right.
+        if (!getExtensionForContentType(contentType, this.options.mimeExtensions)) {
+            this.guessedLinks.delete(url);
+        }
+    }
+
+    /**
+     * Fix the links which have been written before knowing the content-type of their target.
+     * Ex: a link to "/feed" has been written as "feed/index.html", but it's XML and stored as "feed.xml".
+     */
+    private async fixGuessedLinks(cache: CrawlerCache): Promise<void> {
+        for (const [targetUrl, linksByPage] of this.guessedLinks) {
+            const contentType = this.contentTypes.get(targetUrl);
+            if (!contentType || !getExtensionForContentType(contentType, this.options.mimeExtensions)) continue;
+
+            for (const [pageUrl, oldLink] of linksByPage) {
+                const newLink = this.urlTool_buildFileSystemUrl(targetUrl, pageUrl);
+                if (newLink === oldLink) continue;
+
+                // Only replace the whole url, inside an attribute or a CSS url().
+                const regExp = new RegExp("(?<=[\"'(\\s,=])" + escapeRegExp(oldLink) + "(?=[\"')\\s,])", "g");
+
+                await cache.rewriteFile!(this.transformFoundUrl(pageUrl, false, pageUrl), content => {
+                    return content.replace(regExp, newLink);
+                });
+            }
+        }
+
+        this.guessedLinks.clear();
+    }
+
+    /**
+     * Returns the redirections found, with their final target.
+     */
+    getRedirects(): ResolvedRedirect[] {
+        return this.redirects.getAll().map(r => this.redirects.resolve(r.from)!);
+    }
+
+    /**
+     * Replace the links pointing to a redirection by a link to the final target.
+     */
+    private async rewriteRedirectedLinks(cache: CrawlerCache): Promise<void> {
+        const redirects = this.getRedirects();
+
+        const pages = this.pagesDownloaded.filter(url => {
+            const contentType = this.contentTypes.get(url);
+            return !contentType || isHtmlContentType(contentType);
+        });
+
+        for (const pageUrl of pages) {
+            const replacements = new Map<string, string>();
+
+            for (const redirect of redirects) {
+                const oldLink = this.transformFoundUrl(redirect.from, true, pageUrl);
+                const newLink = this.getRedirectTargetLink(redirect.target, pageUrl);
+                if (newLink !== oldLink) replacements.set(oldLink, newLink);
+            }
+
+            if (!replacements.size) continue;
+
+            // The longest first, since a link can be the start of another one.
+            const oldLinks = Array.from(replacements.keys()).sort((a, b) => b.length - a.length);
+
+            // Only replace the whole url, inside an attribute or a CSS url().
+            const regExp = new RegExp("(?<=[\"'(\\s,=])(" + oldLinks.map(escapeRegExp).join("|") + ")(?=[\"')\\s,#])", "g");
+
+            await cache.rewriteFile!(this.transformFoundUrl(pageUrl, false, pageUrl), content => {
+                return content.replace(regExp, oldLink => replacements.get(oldLink)!);
+            });
+        }
+
+        // Avoid links fixed for urls which aren't downloaded.
+        this.guessedLinks.clear();
+    }
+
+    /**
+     * Returns the link to use inside this page for the target of a redirection.
+     */
+    private getRedirectTargetLink(target: string, pageUrl: string): string {
+        // An external url is kept as-is.
+        if (!target.toLowerCase().startsWith(this.requiredPrefix)) return target;
+        return this.transformFoundUrl(target, true, pageUrl);
+    }
+
+    /**
+     * Write the redirections found, in the formats asked.
+     */
+    private async exportRedirects(cache: CrawlerCache, formats: RedirectExportFormat[]): Promise<void> {
+        const redirects = this.getRedirects();
+
+        const toLocal = (url: string) => url.toLowerCase().startsWith(this.requiredPrefix)
+            ? url.substring(this.newWebSite_basePath.length) : url;
+
+        // The chains are replaced by a single redirection to the final target.
+        const flattened: RecordedRedirect[] = redirects.map(r => ({from: toLocal(r.from), to: toLocal(r.target), status: r.status}));
+
+        if (formats.includes("netlify")) {
+            await cache.addFile!("_redirects", buildNetlifyRedirects(flattened));
+        }
+
+        if (formats.includes("nginx")) {
+            await cache.addFile!("redirects.nginx.conf", buildNginxRedirectMap(flattened));
+        }
+
+        if (formats.includes("json")) {
+            const json = redirects.map(r => ({
+                from: toLocal(r.from), to: toLocal(r.target), status: r.status,
+                chain: r.chain.map(c => ({from: toLocal(c.from), to: toLocal(c.to), status: c.status}))
+            }));
+
+            await cache.addFile!("redirects.json", JSON.stringify(json, null, 4));
+        }
+
+        if (formats.includes("stubs")) {
+            const fileOptions = {queryStringNaming: this.options.queryStringNaming, mimeExtensions: this.options.mimeExtensions};
+            const toFilePath = (url: string) => getCacheFilePath(this.transformFoundUrl(url, false, url), this.contentTypes.get(url), fileOptions);
+
+            // Don't replace a file really downloaded (ex: "/blog" redirecting to "/blog/").
+            const downloadedFiles = new Set(this.pagesDownloaded.map(toFilePath));
+
+            for (const redirect of redirects) {
+                try {
+                    const filePath = toFilePath(redirect.from);
+                    if (!/\.html?$/.test(filePath) || downloadedFiles.has(filePath)) continue;
+
+                    await cache.addFile!(filePath, buildRedirectStub(this.getRedirectTargetLink(redirect.target, redirect.from)));
+                }
+                catch (e) {
+                    console.error("Crawler - Can't write the redirect stub:", redirect.from);
+                    console.error("|--> Message:", getErrorMessage(e));
+                }
+            }
+        }
+    }
+
+    /**
+     * Write a sitemap listing all the pages downloaded.
+     */
+    private async writeSitemap(cache: CrawlerCache): Promise<void> {
+        const pages = this.pagesDownloaded.filter(url => {
+            const contentType = this.contentTypes.get(url);
+            return !contentType || isHtmlContentType(contentType);
+        });
+
+        const xml = buildSitemap(pages.map(url => ({loc: new URL(url).toString()})));
+
+        await cache.addFile!("sitemap.xml", xml);
     }
 
     /**
-     * Is called when we want to add an url to the processing queue.
-     * A call to cleanUpUrl must have been done before.
+     * Returns true if the robots.txt of the server forbids this url.
      */
-    private pushUrl(url: string | null): string {
-        if (!url) return "";
-
-        url = this._cleanUpUrl(url);
-        if (!url) return "";
-
-        if (this.urlDone.includes(url)) return url;
-        this.urlDone.push(url);
+    private isBlockedByRobots(url: string): boolean {
+        if (this.options.ignoreRobotsTxt) return false;
 
-        if (this.options.canDownload) {
-            if (!this.options.canDownload(url.substring(this.requiredPrefix.length), this.isResource(url))) {
-                return url;
-            }
-        }
+        const mappingResult = this.options.urlMapping!.resolveURL(url.substring(this.newWebSite_basePath.length));
+        if (!mappingResult) return false;
 
-        if (!this.currentGroup.stack) this.currentGroup.stack = [];
-        this.currentGroup.stack.push(url);
+        const targetUrl = new URL(mappingResult.url);
+        const robots = this.robotsByOrigin[targetUrl.origin];
+        if (!robots) return false;
 
-        return url;
+        return !robots.isAllowed(targetUrl.pathname + targetUrl.search, this.options.userAgent!);
     }
 
     private async processStack(): Promise<void> {
         if (this.isStarted) return;
         this.isStarted = true;
+        this.mustStop = false;
+
+        const maxGroups = this.options.concurrency!;
+        const running = new Set<Promise<void>>();
 
         while (true) {
-            const group = this.groupStack.shift();
-            if (!group) break;
+            while (!this.mustStop && !this.isStopping() && (running.size < maxGroups)) {
+                const group: UrlGroup|undefined = this.frontier.pop();
+                if (!group) break;
+
+                this.runningGroups.add(group);
 
-            if (!await this.processGroup(group)) break;
+                const promise: Promise<void> = this.processGroup(group)
+                    .then(canContinue => { if (!canContinue) this.mustStop = true })
+                    .finally(() => {
+                        running.delete(promise);
+                        this.runningGroups.delete(group);
+                    });
+
+                running.add(promise);
+            }
+
+            // Nothing is running, and nothing more can be started.
+            if (!running.size) break;
+
+            await Promise.race(running);
+
+            if (this.options.checkpointPath && (Date.now() - this.lastCheckpointDate >= this.options.checkpointInterval_ms!)) {
+                await this.saveCheckpoint();
+            }
         }
 
         this.isStarted = false;
     }
 
+    /**
+     * Save the current state of the crawler inside the checkpoint file.
+     */
+    private async saveCheckpoint(): Promise<void> {
+        this.lastCheckpointDate = Date.now();
+
+        // The groups being processed are saved first,
+        // with the resources they are processing.
+        //
+        const running = Array.from(this.runningGroups).map(group => {
+            const stack = [...(group.pendingResources || []), ...(group.stack || [])];
+            return toCheckpointGroup(group, stack.length ? stack : undefined);
+        });
+
+        const checkpoint: CrawlerCheckpoint = {
+            version: CHECKPOINT_VERSION,
+            date: this.lastCheckpointDate,
+            entryPoint: this.entryPoint,
+            urlCount: this.urlCount,
+            urlDone: Array.from(this.urlDone),
+            frontier: [...running, ...this.frontier.getAll().map((g: UrlGroup) => toCheckpointGroup(g, g.stack))],
+            retryCounts: {...this.retryCounts},
+            pagesDownloaded: [...this.pagesDownloaded],
+            redirects: this.redirects.getAll(),
+            contentTypes: Object.fromEntries(this.contentTypes),
+            guessedLinks: Object.fromEntries(Array.from(this.guessedLinks, ([url, linksByPage]) => [url, Object.fromEntries(linksByPage)])),
+            canonicalAliases: Object.fromEntries(this.canonicalAliases),
+            sitemapInfos: Object.fromEntries(this.sitemapInfos),
+            statistics: this.statistics.getState()
+        };
+
+        try {
+            await writeCheckpoint(this.options.checkpointPath!, checkpoint);
+        }
+        catch (e: any) {
+            console.error("Crawler - Can't save checkpoint:", this.options.checkpointPath);
+            console.error("|--> Message:", getErrorMessage(e));
+        }
+    }
+
     /**
      * Will fetch an url and process the result.
      * If the result is HTML, it will be analyzed.
      * Also, if it's CSS.
      */
     private async processGroup(group: UrlGroup): Promise<boolean> {
-        this.currentGroup = group;
-
         // Process the group main url.
-        const processResponse = await this.processUrl(group.url);
+        // Is already done if the group comes from a checkpoint.
+        //
+        if (group.state === undefined) {
+            const state = await this.processUrl(group.url, group);
+
+            // The group will be processed again if the crawling is resumed.
+            if (state === ProcessUrlResult.CANCELLED) {
+                this.frontier.pushFirst(group);
+                return true;
+            }
+
+            group.state = state;
+
+            if ((group.state === ProcessUrlResult.OK) || (group.state === ProcessUrlResult.NOT_MODIFIED)) {
+                this.pagesDownloaded.push(group.url);
+            }
+        }
+
+        const processResponse = group.state;
 
         // Process the resource inside the group.
         if (group.stack) {
@@ -268,25 +1270,77 @@ export class WebSiteCrawler {
                     isNotResource = sortTools.result();
                 }
 
+                const depth = (group.depth || 0) + 1;
+                const pages: UrlGroup[] = [];
+
                 isNotResource.forEach(url => {
-                    this.groupStack.push({url});
+                    if ((this.options.maxDepth !== undefined) && (depth > this.options.maxDepth)) {
+                        this.setLimitReached("maxDepth");
+                        this.sendUrlSkipped(url, group, ProcessUrlResult.EXCLUDED, "maxDepth");
+                        return;
+                    }
+
+                    if (this.options.maxPages && (this.pageCount >= this.options.maxPages)) {
+                        this.setLimitReached("maxPages");
+                        this.sendUrlSkipped(url, group, ProcessUrlResult.EXCLUDED, "maxPages");
+                        return;
+                    }
+
+                    this.pageCount++;
+                    pages.push({url, depth, ...this.takeSitemapInfos(url)});
                 });
+
+                this.frontier.push(pages);
             }
 
             // Process the resources now.
             // Allow the page to be completely loaded.
+            // The resources are fetched in parallel, according to the concurrency limits.
             //
             while (isResource) {
-                const resources = isResource;
+                let resources: string[] = isResource;
                 isResource = undefined;
 
-                for (let i = 0; i < resources.length; i++) {
-                    const resUrl = resources[i];
-                    const resState = await this.processUrl(resUrl);
+                if (this.options.maxResources) {
+                    const allowed = Math.max(0, this.options.maxResources - this.resourceCount);
+
+                    if (resources.length > allowed) {
+                        this.setLimitReached("maxResources");
+                        resources.slice(allowed).forEach(url => this.sendUrlSkipped(url, group, ProcessUrlResult.EXCLUDED, "maxResources"));
+                        resources = resources.slice(0, allowed);
+                    }
+
+                    this.resourceCount += resources.length;
+                }
+
+                group.pendingResources = [...resources];
+                const cancelled: string[] = [];
+
+                await Promise.all(resources.map(async resUrl => {
+                    const resState = await this.processUrl(resUrl, group);
+
+                    const idx = group.pendingResources!.indexOf(resUrl);
+                    if (idx !== -1) group.pendingResources!.splice(idx, 1);
+
+                    if (resState === ProcessUrlResult.CANCELLED) {
+                        cancelled.push(resUrl);
+                        return;
+                    }
 
                     if (this.options.onResourceDownloaded) {
                         this.options.onResourceDownloaded(resUrl, resState);
                     }
+                }));
+
+                group.pendingResources = undefined;
+
+                // Keep the resources not processed with the group,
+                // which allows returning them and saving them inside the checkpoint.
+                //
+                if (cancelled.length) {
+                    group.stack = [...cancelled, ...(group.stack || [])];
+                    this.frontier.pushFirst(group);
+                    return true;
                 }
 
                 // Come from CSS.
@@ -297,6 +1351,8 @@ export class WebSiteCrawler {
             }
         }
 
+        this.emit({type: "page-complete", url: group.url, state: processResponse});
+
         if (this.options.onPageFullyDownloaded) {
             const res = this.options.onPageFullyDownloaded(group.url, processResponse);
             if (res instanceof Promise) await res;
@@ -307,6 +1363,9 @@ export class WebSiteCrawler {
     }
 
     private isResource(u: string) {
+        const contentType = this.contentTypes.get(u);
+        if (contentType) return !isHtmlContentType(contentType);
+
         const url = new URL(u);
         u = url.pathname;
 
@@ -317,34 +1376,79 @@ export class WebSiteCrawler {
         return gExtensionForResourceType.includes(ext);
     }
 
-    private async processUrl(sourceUrl: string): Promise<ProcessUrlResult> {
-        const sendSignal = (state: ProcessUrlResult) => {
-            if (this.options.onUrlProcessed) {
+    /**
+     * Returns the retry policy to use, with all the values set.
+     */
+    private getRetryPolicy(targetOptions?: UrlMappingTargetOptions): Required<RetryPolicy> {
+        return {...gDefaultRetryPolicy, ...this.options.retryPolicy, ...targetOptions?.retryPolicy};
+    }
+
+    /**
+     * Returns the limiter for the origin of this url.
+     * Is created on the first call for this origin.
+     */
+    private getOriginLimiter(url: string): OriginLimiter {
+        const origin = new URL(url).origin;
+        let limiter = this.originLimiters[origin];
+        if (limiter) return limiter;
+
+        const targetOptions = this.options.urlMapping!.getOriginOptions(origin);
+        let pauseDuration_ms = targetOptions?.pauseDuration_ms ?? this.options.pauseDuration_ms ?? 0;
+
+        // The crawl-delay is added to our own pause.
+        const robots = this.robotsByOrigin[origin];
+        if (robots) pauseDuration_ms += robots.getCrawlDelay_ms(this.options.userAgent!);
+
+        limiter = new OriginLimiter(origin,
+            targetOptions?.concurrency || this.options.concurrency!,
+            pauseDuration_ms);
+
+        this.originLimiters[origin] = limiter;
+        return limiter;
+    }
+
+    private async processUrl(sourceUrl: string, group: UrlGroup): Promise<ProcessUrlResult> {
+        const sendSignal = (state: ProcessUrlResult, error?: string) => {
+            this.statistics.addUrlState(state);
+
+            if (this.linkChecker) {
+                this.linkChecker.setResult(sourceUrl, state === ProcessUrlResult.ERROR, lastStatus, error);
+            }
+
+            if (this.options.onUrlProcessed || this.eventQueues.length) {
                 const date = Date.now();
                 const elapsed = date - now;
 
                 const cacheKey = this.cache?.getKey(transformedUrl);
 
-                this.options.onUrlProcessed({
+                const infos: UrlProcessedInfos = {
                     sourceUrl, requestedByUrl,
                     state, retryCount,
                     transformedUrl,
                     localUrl,
                     cacheKey,
-                    urlCount: this.urlCount,
+                    urlCount,
                     date, elapsed
-                });
+                };
+
+                if (this.options.onUrlProcessed) this.options.onUrlProcessed(infos);
+                if (this.eventQueues.length) this.emit(this.getUrlEvent(sourceUrl, infos, lastStatus, lastContentType, redirectTarget, error));
             }
 
             return state;
         }
 
-        let retryCount = 0;
+        // Is set if we are resuming from a checkpoint.
+        let retryCount = this.retryCounts[sourceUrl] || 0;
+        let lastStatus: number|undefined;
+        let lastContentType: string|undefined;
+        let redirectTarget: string|undefined;
+        let urlCount = this.urlCount;
         const localUrl = sourceUrl.substring(this.newWebSite_basePath.length);
 
         const now = Date.now();
         const partialUrl = sourceUrl.substring(this.newWebSite_basePath.length);
-        const requestedByUrl = this.currentGroup.url;
+        const requestedByUrl = group.url;
 
         const mappingResult = this.options.urlMapping!.resolveURL(partialUrl);
         if (!mappingResult) return ProcessUrlResult.IGNORED;
@@ -352,142 +1456,415 @@ export class WebSiteCrawler {
         let transformedUrl = sourceUrl;
 
         if (this.cache) {
-            transformedUrl = this.transformFoundUrl(sourceUrl, false);
+            transformedUrl = this.transformFoundUrl(sourceUrl, false, group.url);
         }
 
-        if (this.cache && this.options.canIgnoreIfAlreadyCrawled) {
-            const isInCache = await this.cache.hasInCache(transformedUrl, requestedByUrl)
+        let cacheMetadata: CrawlerCacheMetadata|undefined;
 
-            if (isInCache && this.options.canIgnoreIfAlreadyCrawled(
-                sourceUrl.substring(this.newWebSite_basePath.length), {sourceUrl: mappingResult.url})) {
+        if (this.cache && (this.options.canIgnoreIfAlreadyCrawled || this.options.useConditionalRequests)) {
+            const isInCache = await this.cache.hasInCache(transformedUrl, requestedByUrl);
+
+            if (isInCache && this.cache.getMetadata) {
+                cacheMetadata = await this.cache.getMetadata(transformedUrl);
+                if (cacheMetadata?.contentType) this.setContentType(sourceUrl, cacheMetadata.contentType);
+            }
+
+            if (isInCache && this.options.canIgnoreIfAlreadyCrawled && this.options.canIgnoreIfAlreadyCrawled(
+                sourceUrl.substring(this.newWebSite_basePath.length), {
+                    sourceUrl: mappingResult.url,
+                    addToCacheDate: cacheMetadata ? cacheMetadata.fetchDate : 0,
+                    metadata: cacheMetadata
+                })) {
                 return sendSignal(ProcessUrlResult.IGNORED);
             }
         }
 
+        // Allow the server to only send the content if it has changed.
+        const fetchHeaders: Record<string, string> = {};
+
+        if (cacheMetadata && this.options.useConditionalRequests) {
+            if (cacheMetadata.etag) fetchHeaders["if-none-match"] = cacheMetadata.etag;
+            if (cacheMetadata.lastModified) fetchHeaders["if-modified-since"] = cacheMetadata.lastModified;
+        }
+
         if (mappingResult.wakeUpServer) {
             await mappingResult.wakeUpServer();
         }
 
-        this.urlCount++;
+        urlCount = ++this.urlCount;
 
-        if (this.options.pauseDuration_ms) {
-            await tick(this.options.pauseDuration_ms);
-        }
+        // The origin slot is taken first, to avoid
+        // blocking the others origins while waiting.
+        //
+        await this.waitBeforeFetching();
 
-        while (true) {
-            try {
-                let res: CrawlerFetchResponse;
+        const originLimiter = this.getOriginLimiter(mappingResult.url);
+        await originLimiter.acquire();
+        await this.fetchSemaphore.acquire();
 
-                if (this.options.doFetch) {
-                    res = await this.options.doFetch(this, mappingResult.url, requestedByUrl);
-                }
-                else {
-                    // noinspection JSUnusedGlobalSymbols
-                    res = await fetch(mappingResult.url, {
-                        // > This option allows avoiding SSL certificate check.
+        try {
+            while (true) {
+                if (this.isStopping()) return ProcessUrlResult.CANCELLED;
 
-                        // @ts-ignore
-                        rejectUnauthorized: false,
+                try {
+                    // Is computed for each try, since the cookies can have changed.
+                    const requestHeaders = this.getRequestHeaders(mappingResult.url, mappingResult.targetOptions, fetchHeaders);
 
-                        requestCert: false,
+                    const fetchDate = Date.now();
+                    let res = await this.doFetch(mappingResult.url, requestedByUrl, requestHeaders);
+                    this.statistics.addResponse(sourceUrl, new URL(mappingResult.url).origin, res.status, Date.now() - fetchDate);
 
-                        tls: {
-                            rejectUnauthorized: false,
-                            checkServerIdentity: () => { return undefined }
-                        },
+                    if (this.cache && this.cache.addHttpExchange) {
+                        res = await this.sendHttpExchange(this.cache, res, transformedUrl, mappingResult.url, requestedByUrl, requestHeaders, fetchDate);
+                    }
 
-                        // Allow avoiding automatic redirections.
-                        // @ts-ignore
-                        redirect: 'manual',
+                    lastStatus = res.status;
 
-                        headers: {
-                            "referer": requestedByUrl
-                        }
+                    if (res.status !== 200) {
+                        if ((res.status === 304) && cacheMetadata) {
+                            // The cached copy contains rewritten urls,
+                            // it's why we use the links found the last time.
+                            //
+                            if (cacheMetadata.contentType && cacheMetadata.contentType.startsWith("text/html")) {
+                                this.options.linkGraph?.markAsPage(sourceUrl);
+                            }
 
-                        //verbose: true
-                    });
-                }
+                            if (cacheMetadata.links) {
+                                cacheMetadata.links.forEach(u => this.addLink(u, sourceUrl, group, undefined, "cache"));
+                            }
 
-                if (res.status !== 200) {
-                    if (res.status >= 300 && res.status < 400) {
-                        const location = res.headers.get("Location");
-                        if (location) this.pushUrl(location);
-                        return sendSignal(ProcessUrlResult.REDIRECTED);
-                    } else {
-                        let canContinue = false;
-
-                        if (this.options.onInvalidResponseCodeFound) {
-                            let what = this.options.onInvalidResponseCodeFound(sourceUrl, retryCount, res);
-                            if (what instanceof Promise) what = await what;
-                            canContinue = what;
-                        } else if (retryCount < 3) {
-                            // Retry 3 times, with a longer pause each time.
-                            await tick(1000 * retryCount);
-                            canContinue = true;
+                            return sendSignal(ProcessUrlResult.NOT_MODIFIED);
                         }
 
-                        if (!canContinue) {
-                            return sendSignal(ProcessUrlResult.ERROR);
-                        }
+                        if (res.status >= 300 && res.status < 400) {
+                            const location = res.headers.get("Location");
 
-                        retryCount++;
+                            if (location) {
+                                const target = this.addLink(location, sourceUrl, group, undefined, "redirect");
+                                if (this.linkChecker) this.addLinkCheckReference(location, target, sourceUrl, {page: sourceUrl, element: "redirect"});
 
-                        // Will retry automatically.
-                        continue;
-                    }
-                }
+                                // An external target is kept as-is.
+                                redirectTarget = target || new URL(location, mappingResult.url).href;
+                                this.redirects.add(sourceUrl, redirectTarget, res.status);
+                            }
+
+                            return sendSignal(ProcessUrlResult.REDIRECTED);
+                        } else {
+                            let canContinue = false;
+
+                            const retryPolicy = this.getRetryPolicy(mappingResult.targetOptions);
+                            const retryAfter = res.headers.get("retry-after");
+
+                            // The server asks us to slow down.
+                            if (retryPolicy.adaptiveThrottling && isThrottlingStatus(res.status)) {
+                                originLimiter.slowDown(retryAfter && retryPolicy.respectRetryAfter ? parseRetryAfter_ms(retryAfter) : undefined);
+                            }
+
+                            if (this.options.onInvalidResponseCodeFound) {
+                                let what = this.options.onInvalidResponseCodeFound(sourceUrl, retryCount, res);
+                                if (what instanceof Promise) what = await what;
+                                canContinue = what;
+                            } else {
+                                const delay = getRetryDelay_ms(retryPolicy, retryCount, res.status, retryAfter);
+
+                                if (delay !== undefined) {
+                                    // Don't block the others urls while waiting.
+                                    this.fetchSemaphore.release();
+                                    originLimiter.release();
+
+                                    await this.sleep(delay);
 
-                const contentType = res.headers.get("content-type");
+                                    await originLimiter.acquire();
+                                    await this.fetchSemaphore.acquire();
 
-                if (contentType) {
-                    if (contentType.startsWith("text/html")) {
-                        let html = await res.text();
+                                    canContinue = true;
+                                }
+                            }
 
-                        if (this.options.rewriteHtmlBeforeProcessing) {
-                            let res = this.options.rewriteHtmlBeforeProcessing(html, sourceUrl.substring(this.newWebSite_basePath.length), mappingResult.url);
-                            if (res instanceof Promise) res = await res;
-                            html = res;
+                            if (!canContinue) {
+                                return sendSignal(ProcessUrlResult.ERROR);
+                            }
+
+                            retryCount++;
+                            this.statistics.addRetry();
+                            this.retryCounts[sourceUrl] = retryCount;
+
+                            // Will retry automatically.
+                            continue;
                         }
+                    }
+
+                    originLimiter.speedUp();
+
+                    const maxResponseSize = this.options.maxResponseSize;
+                    const contentLength = res.headers.get("content-length");
+
+                    // No need to download it.
+                    if (maxResponseSize && contentLength && (parseInt(contentLength) > maxResponseSize)) {
+                        if (res.body) await res.body.cancel();
+                        return sendSignal(ProcessUrlResult.TOO_LARGE);
+                    }
+
+                    const contentType = res.headers.get("content-type");
+                    const foundUrls: string[] = [];
+                    lastContentType = contentType || undefined;
 
-                        html = await this.processHtml(html);
+                    if (contentType) this.setContentType(sourceUrl, contentType);
 
-                        if (this.options.rewriteHtmlBeforeStoring) {
-                            let res = this.options.rewriteHtmlBeforeStoring(html, sourceUrl.substring(this.newWebSite_basePath.length), mappingResult.url);
-                            if (res instanceof Promise) res = await res;
-                            html = res;
+                    if (res.body) {
+                        res = new Response(this.statistics.countBody(res.body, contentType), {status: res.status, headers: res.headers});
+                    }
+
+                    if (contentType) {
+                        if (contentType.startsWith("text/html")) {
+                            let html = await res.text();
+                            this.options.linkGraph?.markAsPage(sourceUrl);
+
+                            if (this.options.rewriteHtmlBeforeProcessing) {
+                                let res = this.options.rewriteHtmlBeforeProcessing(html, sourceUrl.substring(this.newWebSite_basePath.length), mappingResult.url);
+                                if (res instanceof Promise) res = await res;
+                                html = res;
+                            }
+
+                            html = await this.processHtml(html, sourceUrl, group, foundUrls);
+
+                            if (this.options.rewriteHtmlBeforeStoring) {
+                                let res = this.options.rewriteHtmlBeforeStoring(html, sourceUrl.substring(this.newWebSite_basePath.length), mappingResult.url);
+                                if (res instanceof Promise) res = await res;
+                                html = res;
+                            }
+
+                            res = new Response(html, {status: 200, headers: res.headers});
+                        } else if (contentType.startsWith("text/css")) {
+                            let css = await res.text();
+                            css = this.processCss(css, sourceUrl, group, foundUrls);
+
+                            if (this.options.rewriteCssBeforeStoring) {
+                                let res = this.options.rewriteCssBeforeStoring(css, sourceUrl.substring(this.newWebSite_basePath.length), mappingResult.url);
+                                if (res instanceof Promise) res = await res;
+                                css = res;
+                            }
+
+                            res = new Response(css, {status: 200, headers: res.headers});
                         }
+                    }
 
-                        res = new Response(html, {status: 200, headers: res.headers});
-                    } else if (contentType.startsWith("text/css")) {
-                        const content = await res.text();
-                        const cssUrls = parseCssUrls(content) as string[];
+                    // We only need to know that the resource exists.
+                    if (this.linkChecker && res.body) {
+                        await res.body.cancel();
+                    }
 
-                        if (cssUrls.length) {
-                            cssUrls.forEach(u => {
-                                const cleanedUrl = this.cleanUpCssUrl(u, sourceUrl);
-                                if (cleanedUrl) this.pushUrl(cleanedUrl);
-                            });
+                    if (this.cache) {
+                        const metadata: CrawlerCacheMetadata = {
+                            fetchDate: Date.now(),
+                            status: res.status,
+                            etag: res.headers.get("etag") || undefined,
+                            lastModified: res.headers.get("last-modified") || undefined,
+                            contentType: contentType || undefined,
+                            links: foundUrls.length ? foundUrls : undefined
+                        };
+
+                        let body: ReadableStream<Uint8Array>|ArrayBuffer|null = res.body;
+
+                        // Without an exact size, the body is read before giving it to the cache.
+                        // Otherwise, if the limit is reached, the cache would store a truncated file.
+                        //
+                        if (maxResponseSize && body && (!contentLength || res.headers.get("content-encoding"))) {
+                            body = await new Response(body).arrayBuffer();
                         }
 
-                        res = new Response(content, {status: 200, headers: res.headers});
+                        let hRes = new Response(body, {status: res.status, headers: res.headers});
+                        await this.cache.addToCache(transformedUrl, hRes, requestedByUrl, metadata);
                     }
-                }
 
-                if (this.cache) {
-                    let hRes = new Response(res.body, {status: res.status, headers: res.headers});
-                    await this.cache.addToCache(transformedUrl, hRes, requestedByUrl);
+                    return sendSignal(ProcessUrlResult.OK);
                 }
+                catch (e: any) {
+                    if (this.isCancelled()) return ProcessUrlResult.CANCELLED;
+
+                    if (e instanceof ResponseTooLargeError) {
+                        return sendSignal(ProcessUrlResult.TOO_LARGE, getErrorMessage(e));
+                    }
+
+                    debugger;
+                    console.error("Crawler - Error while fetching:", sourceUrl);
+                    console.error("|--> Message:", getErrorMessage(e));
 
-                return sendSignal(ProcessUrlResult.OK);
+                    return sendSignal(ProcessUrlResult.ERROR, getErrorMessage(e));
+                }
             }
-            catch (e: any) {
-                debugger;
-                console.error("Crawler - Error while fetching:", sourceUrl);
-                console.error("|--> Message:", getErrorMessage(e));
+        }
+        finally {
+            this.fetchSemaphore.release();
+            originLimiter.release();
+            delete this.retryCounts[sourceUrl];
+        }
+    }
+
+    /**
+     * Returns the event to send once an url has been processed.
+     */
+    private getUrlEvent(url: string, infos: UrlProcessedInfos, status: number|undefined, contentType: string|undefined,
+                        redirectTarget: string|undefined, error: string|undefined): CrawlerEvent {
+        switch (infos.state) {
+            case ProcessUrlResult.OK:
+            case ProcessUrlResult.NOT_MODIFIED:
+                return {type: "fetched", url, status, contentType, infos};
+
+            case ProcessUrlResult.REDIRECTED:
+                return {type: "redirected", url, target: redirectTarget || "", status, infos};
+
+            case ProcessUrlResult.ERROR:
+            case ProcessUrlResult.TOO_LARGE:
+                return {type: "error", url, status, error, infos};
+
+            default:
+                return {type: "skipped", url, infos};
+        }
+    }
+
+    /**
+     * Give the raw response to the cache, before any processing.
+     * Returns a new response, since the body has been read.
+     */
+    private async sendHttpExchange(cache: CrawlerCache, res: CrawlerFetchResponse, url: string, targetUrl: string,
+                                   referer: string, headers: Record<string, string>, date: number): Promise<CrawlerFetchResponse> {
+        const body = res.body ? new Uint8Array(await new Response(res.body).arrayBuffer()) : new Uint8Array(0);
+
+        await cache.addHttpExchange!({
+            url, targetUrl, date,
+            method: "GET",
+            requestHeaders: {...headers, "referer": referer},
+            status: res.status,
+            headers: res.headers,
+            body
+        });
+
+        // These status can't have a body.
+        const hasNoBody = [101, 103, 204, 205, 304].includes(res.status);
+        return new Response(hasNoBody ? null : body, {status: res.status, headers: res.headers});
+    }
+
+    /**
+     * Returns the headers to send to this url: user-agent, static headers, credentials and cookies.
+     * The static headers and the credentials are only sent to the crawled servers,
+     * which avoids leaking them to another site (ex: a sitemap or a redirection to another site).
+     *
+     * @param url
+     *      The url of the server.
+     * @param targetOptions
+     *      The options of the UrlMapping target.
+     * @param headers
+     *      Headers specific to this request, which have priority.
+     */
+    private getRequestHeaders(url: string, targetOptions: UrlMappingTargetOptions|undefined, headers?: Record<string, string>): Record<string, string> {
+        let res: Record<string, string>;
+
+        if (this.getCrawledOrigins().includes(new URL(url).origin)) {
+            const auth = targetOptions?.auth || this.options.auth;
+
+            res = mergeHeaders(
+                {"user-agent": this.options.userAgent!},
+                this.options.headers,
+                targetOptions?.headers,
+                auth ? {"authorization": getAuthorizationHeader(auth)} : undefined,
+                headers
+            );
+        } else {
+            res = mergeHeaders({"user-agent": this.options.userAgent!}, headers);
+        }
+
+        if (this.isUsingCookies()) {
+            const cookies = this.cookieJar.getCookieHeader(url);
+            if (cookies) res["cookie"] = cookies;
+        }
+
+        return res;
+    }
+
+    /**
+     * Returns the headers to send to this url, when it's not an url of a mapping route
+     * (robots.txt, sitemaps, login). The options of the origin are used.
+     */
+    private getOriginRequestHeaders(url: string, headers?: Record<string, string>): Record<string, string> {
+        return this.getRequestHeaders(url, this.options.urlMapping!.getOriginOptions(new URL(url).origin), headers);
+    }
+
+    private isUsingCookies(): boolean {
+        return !!(this.options.useCookies || this.options.login);
+    }
+
+    /**
+     * Fetch an url, using the custom fetch function if one is set.
+     * The cookies returned are stored.
+     */
+    private async doFetch(url: string, referer: string, headers: Record<string, string>): Promise<CrawlerFetchResponse> {
+        // Is aborted on timeout, or when the crawling is stopped.
+        const controller = new AbortController();
+        const signal = this.abortSignal ? AbortSignal.any([this.abortSignal, controller.signal]) : controller.signal;
 
-                return sendSignal(ProcessUrlResult.ERROR);
+        const connectTimeout_ms = this.options.connectTimeout_ms!;
+
+        const timer = setTimeout(() => {
+            controller.abort(new RequestTimeoutError("The server doesn't respond", connectTimeout_ms));
+        }, connectTimeout_ms);
+
+        let res: CrawlerFetchResponse;
+
+        try {
+            if (this.options.doFetch) {
+                res = await this.options.doFetch(this, url, referer, headers, signal);
+            } else {
+                res = await this.defaultFetch(url, referer, headers, signal);
             }
         }
+        finally {
+            clearTimeout(timer);
+        }
+
+        if (this.isUsingCookies() && res.headers.getSetCookie) {
+            this.cookieJar.setCookies(url, res.headers.getSetCookie());
+        }
+
+        if (!res.body || [101, 103, 204, 205, 304].includes(res.status)) return res;
+
+        let body = watchBodyReading(res.body, this.options.readTimeout_ms!, e => controller.abort(e));
+
+        if (this.options.maxResponseSize) {
+            body = limitBodySize(body, this.options.maxResponseSize, e => controller.abort(e));
+        }
+
+        return new Response(body, {status: res.status, headers: res.headers});
+    }
+
+    private defaultFetch(url: string, referer: string, headers: Record<string, string>, signal: AbortSignal): Promise<CrawlerFetchResponse> {
+        // noinspection JSUnusedGlobalSymbols
+        return fetch(url, {
+            signal,
+
+            // > This option allows avoiding SSL certificate check.
+
+            // @ts-ignore
+            rejectUnauthorized: false,
+
+            requestCert: false,
+
+            tls: {
+                rejectUnauthorized: false,
+                checkServerIdentity: () => { return undefined }
+            },
+
+            // Allow avoiding automatic redirections.
+            // @ts-ignore
+            redirect: 'manual',
+
+            headers: {
+                ...headers,
+                "referer": referer
+            }
+
+            //verbose: true
+        });
     }
 
     /**
@@ -495,59 +1872,204 @@ export class WebSiteCrawler {
      * - Extracting the url.
      * - Replacing this url inside the HTML to convert them.
      */
-    private async processHtml(html: string): Promise<string> {
+    private async processHtml(html: string, sourceUrl: string, group: UrlGroup, foundUrls: string[]): Promise<string> {
         // Extract all url and rewrite them inside the html.
         // Will emit calls to addUrl for each url found.
 
         const $ = cheerio.load(html);
 
-        $("img, script, iframe, source").each((_i, node) => {
-            let url = node.attribs["src"];
+        // The relative urls are resolved from <base href> if set.
+        let baseUrl = sourceUrl;
+
+        const baseNode = $("base[href]").first();
 
-            if (url) {
-                url = this.pushUrl(url);
-                if (url.length) node.attribs["src"] = this.transformFoundUrl(url);
+        if (baseNode.length) {
+            const baseHref = baseNode.attr("href")!.trim();
+
+            if (baseHref.includes("://")) {
+                baseUrl = this.rewriteSourceSiteUrl(baseHref);
+            } else if (baseHref.startsWith("//")) {
+                baseUrl = this.newWebSite_urlInfos.protocol + baseHref;
+            } else {
+                baseUrl = new URL(baseHref, sourceUrl).toString();
             }
-        });
 
-        $("a, link").each((_i, node) => {
-            let url = node.attribs["href"];
+            // Our rewritten urls are relative to the page himself,
+            // the base url would break them.
+            //
+            if (this.options.requireRelocatableUrl) {
+                $("base").remove();
+            }
+        }
+
+        if (this.options.canonicalization?.useCanonicalLink) {
+            this.addCanonicalAlias($('link[rel~="canonical"][href]').first().attr("href"), sourceUrl, baseUrl);
+        }
+
+        // Returns the rewritten url, or undefined if the url must not change.
+        const processUrl = (url: string, via: string, node?: {name: string, attribs: Record<string, string>}): string|undefined => {
+            const newUrl = this.addLink(url, sourceUrl, group, foundUrls, via, baseUrl);
 
-            if (url) {
-                url = this.pushUrl(url);
-                if (url.length) node.attribs["href"] = this.transformFoundUrl(url);
+            if (this.linkChecker) {
+                this.addLinkCheckReference(url, newUrl, baseUrl, {
+                    page: sourceUrl, element: via,
+                    html: node ? describeElement(node.name, node.attribs) : undefined
+                });
             }
-        });
 
-        $("img").each((_i, node) => {
-            let srcset = node.attribs["srcset"];
-            if (!srcset) return;
+            if (!newUrl.length) return undefined;
+            return this.transformFoundUrl(newUrl, true, group.url);
+        };
+
+        const processAttribute = (selector: cheerio.SelectorType, attribute: string) => {
+            $(selector).each((_i, node) => {
+                let url = node.attribs[attribute];
+                if (!url) return;
+
+                const newUrl = processUrl(url, node.name + "[" + attribute + "]", node);
+                if (newUrl !== undefined) node.attribs[attribute] = newUrl;
+            });
+        };
+
+        const processSrcset = (selector: cheerio.SelectorType, attribute: string) => {
+            $(selector).each((_i, node) => {
+                let srcset = node.attribs[attribute];
+                if (!srcset) return;
+
+                const parts = srcset.split(",");
+                let newSrcset = "";
 
-            const parts = srcset.split(",");
-            let newSrcset = "";
+                parts.forEach(p => {
+                    p = p.trim();
+                    if (!p) return;
 
-            parts.forEach(p => {
-                p = p.trim();
-                const idx = p.indexOf(" ");
-                if (idx === -1) return;
+                    // The size descriptor is optional.
+                    const idx = p.indexOf(" ");
+                    let url = idx === -1 ? p : p.substring(0, idx);
+                    const size = idx === -1 ? "" : p.substring(idx);
 
-                let url = p.substring(0, idx);
-                const size = p.substring(idx + 1);
+                    const newUrl = processUrl(url, node.name + "[" + attribute + "]", node);
+                    if (newUrl !== undefined) url = newUrl;
 
-                let newUrl = this.pushUrl(url);
-                if (url.length) url = newUrl;
+                    newSrcset += "," + url + size;
+                });
 
-                url = this.transformFoundUrl(url);
-                newSrcset += "," + url + " " + size;
+                node.attribs[attribute] = newSrcset.substring(1);
             });
+        };
+
+        const processCss = (css: string, via: string): string => {
+            return replaceCssUrls(css, url => processUrl(url, via));
+        };
+
+        processAttribute("img, script, iframe, source, embed, audio, video, track, input[type=image]", "src");
+        processAttribute("a, link, area", "href");
+        processAttribute("video", "poster");
+        processAttribute("object", "data");
+
+        processSrcset("img, source", "srcset");
+        processSrcset("link", "imagesrcset");
+
+        $('meta[property="og:image"], meta[property="og:image:url"], meta[property="og:video"], meta[name="twitter:image"]').each((_i, node) => {
+            const url = node.attribs["content"];
+            if (!url) return;
+
+            const newUrl = processUrl(url, "meta[content]", node);
+            if (newUrl !== undefined) node.attribs["content"] = newUrl;
+        });
+
+        $("meta[http-equiv]").each((_i, node) => {
+            if (node.attribs["http-equiv"].toLowerCase() !== "refresh") return;
 
-            node.attribs["srcset"] = newSrcset.substring(1);
+            // Format is: "5; url=https://my-site/target"
+            const content = node.attribs["content"];
+            if (!content) return;
+
+            const match = /^(\s*\d*\s*[;,]\s*url\s*=\s*)(['"]?)([^'"]*)\2\s*$/i.exec(content);
+            if (!match) return;
+
+            const newUrl = processUrl(match[3], "meta[refresh]", node);
+            if (newUrl !== undefined) node.attribs["content"] = match[1] + match[2] + newUrl + match[2];
+        });
+
+        $("[style]").each((_i, node) => {
+            node.attribs["style"] = processCss(node.attribs["style"], "style attribute");
+        });
+
+        $("style").each((_i, node) => {
+            const $node = $(node);
+            const css = $node.text();
+            const newCss = processCss(css, "style url()");
+            if (newCss !== css) $node.text(newCss);
         });
 
         html = $.html();
         return html;
     }
 
+    /**
+     * Remember that this page is an alias of his canonical url.
+     * The next links to this page will be replaced by the canonical url.
+     */
+    private addCanonicalAlias(canonicalHref: string|undefined, pageUrl: string, baseUrl: string) {
+        if (!canonicalHref) return;
+
+        const canonicalUrl = this._cleanUpUrl(canonicalHref, baseUrl);
+        if (!canonicalUrl || (canonicalUrl === pageUrl)) return;
+
+        // Avoid loops, where two pages are the canonical url of each other.
+        if (this.canonicalAliases.has(canonicalUrl)) return;
+
+        this.canonicalAliases.set(pageUrl, canonicalUrl);
+    }
+
+    /**
+     * Give a link found to the link checker.
+     *
+     * @param url
+     *      The url as found.
+     * @param cleanedUrl
+     *      The url once cleaned, or an empty string if it isn't an url of the website.
+     * @param baseUrl
+     *      The url used to resolve the relative urls.
+     * @param reference
+     *      Where the link has been found.
+     */
+    private addLinkCheckReference(url: string, cleanedUrl: string, baseUrl: string, reference: LinkReference) {
+        if (cleanedUrl) {
+            this.linkChecker!.addReference(cleanedUrl, false, reference);
+            return;
+        }
+
+        // The links to others websites.
+        const externalUrl = this.getExternalUrl(url, baseUrl);
+        if (externalUrl) this.linkChecker!.addReference(externalUrl, true, reference);
+    }
+
+    /**
+     * Process a CSS file, which consist:
+     * - Extracting the url (url(...) and @import).
+     * - Replacing this url, relative to the location of the CSS file.
+     */
+    private processCss(css: string, sourceUrl: string, group: UrlGroup, foundUrls: string[]): string {
+        return replaceCssUrls(css, (url, isImport) => {
+            const via = isImport ? "css @import" : "css url()";
+            const cleanedUrl = this.cleanUpCssUrl(url, sourceUrl);
+
+            if (!cleanedUrl) {
+                if (this.linkChecker) this.addLinkCheckReference(url, "", sourceUrl, {page: sourceUrl, element: via});
+                this.addExternalLink(url, sourceUrl, via, sourceUrl);
+                return undefined;
+            }
+
+            const newUrl = this.addLink(cleanedUrl, sourceUrl, group, foundUrls, via);
+            if (this.linkChecker) this.addLinkCheckReference(url, newUrl, sourceUrl, {page: sourceUrl, element: via});
+            if (!newUrl.length) return undefined;
+
+            return this.transformFoundUrl(newUrl, true, sourceUrl);
+        });
+    }
+
     /**
      * Allow rewriting the url from a source site (where we take our pages)
      *  to transform this url to a local url (our website).
@@ -569,18 +2091,25 @@ export class WebSiteCrawler {
 
     /**
      * Allow transforming an url found by the HTML parser.
+     *
+     * @param url
+     *      The url to transform.
+     * @param enableRelocatable
+     *      If true, the url is converted to a relocatable url.
+     * @param comeFromPage
+     *      The url of the page from which this url has been found.
      */
-    transformFoundUrl(url: string, enableRelocatable: boolean = true) {
+    transformFoundUrl(url: string, enableRelocatable: boolean = true, comeFromPage: string = this.newWebSite_basePath) {
         if (this.options.transformUrl) {
             url = this.options.transformUrl(url, {
                 crawler: this,
-                comeFromPage: this.currentGroup.url!,
+                comeFromPage,
                 requireRelocatableUrl: this.options.requireRelocatableUrl!
             });
         }
 
         if (enableRelocatable && this.options.requireRelocatableUrl) {
-            url = this.urlTool_buildFileSystemUrl(url);
+            url = this.urlTool_buildFileSystemUrl(url, comeFromPage);
         }
 
         return url;
@@ -588,7 +2117,7 @@ export class WebSiteCrawler {
     
     /**
      * Clean up the url to make it compatible with the file-system.
-     * Will remove the query-string and the anchors part.
+     * Will remove the anchors part, and include the query-string inside the file name.
      * And make url relatif (with "../.." as a prefix).
      *
      * Why does relatif url are required?
@@ -600,43 +2129,83 @@ export class WebSiteCrawler {
      *      must be transformed as    ../my/css/folder/style.css
      *      (only inside this page)
      */
-    urlTool_buildFileSystemUrl(url: string): string {
+    urlTool_buildFileSystemUrl(url: string, comeFromPage: string = this.newWebSite_basePath): string {
         // Allow to not always check.
         if (!this.options.requireRelocatableUrl) return url;
 
-        let idx = url.indexOf("?");
+        let idx = url.indexOf("#");
         if (idx !== -1) url = url.substring(0, idx);
 
-        idx = url.indexOf("#");
-        if (idx !== -1) url = url.substring(0, idx);
+        let search = "";
+        idx = url.indexOf("?");
+
+        if (idx !== -1) {
+            search = url.substring(idx);
+            url = url.substring(0, idx);
+        }
 
         // > If not a file, then it a directory.
         //   Transform it to be a /index.html file.
 
+        let hasExtension = false;
+        let isGuessed = false;
+        const targetUrl = url + search;
+
         if (url.endsWith("/")) {
             url += "index.html";
         } else {
             const lastSlash = url.lastIndexOf("/");
             const lastSegment = lastSlash === -1 ? url : url.substring(lastSlash + 1);
 
-            if (!lastSegment.includes(".")) {
-                url += "/index.html";
+            if (lastSegment.includes(".")) {
+                hasExtension = true;
+            } else {
+                // > Allow "/feed" (which is XML) to be stored as "feed.xml".
+                const contentType = this.contentTypes.get(targetUrl);
+                const typeExt = getExtensionForContentType(contentType, this.options.mimeExtensions);
+
+                if (typeExt) {
+                    url += typeExt;
+                    hasExtension = true;
+                } else {
+                    url += "/index.html";
+                    isGuessed = !contentType;
+                }
             }
         }
 
+        // > Must be the same naming as DirectFileCache.
+        url = addQueryToFileName(url, encodeQueryString(search, hasExtension, this.options.queryStringNaming));
+
         // Make the url relatif.
         //
         if (url.startsWith(this.newWebSite_lcBasePath)) {
             url = url.substring(this.newWebSite_lcBasePath.length + 1);
 
-            let currentUrl = this.currentGroup.url.substring(this.newWebSite_lcBasePath.length + 1);
-            if (!currentUrl) return url;
-            if (url === currentUrl) return url;
+            let currentUrl = comeFromPage.substring(this.newWebSite_lcBasePath.length + 1);
+
+            idx = currentUrl.search(/[?#]/);
+            if (idx !== -1) currentUrl = currentUrl.substring(0, idx);
+
+            // Nothing to add for the root page, or for a link to the current page.
+            if (currentUrl && (url !== currentUrl)) {
+                let backCount = currentUrl.split("/").length;
 
-            let backCount = currentUrl.split("/").length;
-            if (currentUrl.endsWith("/")) backCount--;
+                // A page is stored as "my/page/index.html", while
+                // a file (ex: "my/css/style.css") is stored inside his dir.
+                //
+                if (currentUrl.endsWith("/")) backCount--;
+                else if (currentUrl.substring(currentUrl.lastIndexOf("/") + 1).includes(".")) backCount--;
 
-            for (let i = 0; i < backCount; i++) url = "../" + url;
+                for (let i = 0; i < backCount; i++) url = "../" + url;
+            }
+        }
+
+        // The link will be fixed at the end if the target isn't HTML.
+        if (isGuessed) {
+            let linksByPage = this.guessedLinks.get(targetUrl);
+            if (!linksByPage) this.guessedLinks.set(targetUrl, linksByPage = new Map());
+            linksByPage.set(comeFromPage, url);
         }
 
         return url;
@@ -653,11 +2222,22 @@ function resolveRelativeUrl(url: string, baseUrl: URL): string {
         } else {
             return baseUrl.toString() + url.substring(1);
         }
-    } else if (url[0]===".") {
-        return new URL(url, baseUrl).toString();
+    } else if (url.includes("://")) {
+        return url;
     }
 
-    return url;
+    return new URL(url, baseUrl).toString();
+}
+
+function toCheckpointGroup(group: UrlGroup, stack: string[]|undefined): CrawlerCheckpointGroup {
+    return {
+        url: group.url, state: group.state, stack, depth: group.depth,
+        sitemapPriority: group.sitemapPriority, lastModified: group.lastModified
+    };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
 const gExtensionForResourceType = [
@@ -0,0 +1,105 @@
+import {describe, expect, test} from "bun:test";
+import {buildStatisticsHtmlReport, CrawlStatisticsCollector} from "./crawlStatistics.ts";
+
+const BACKEND = "https://my-site";
+
+function collect(latencies: number[]): CrawlStatisticsCollector {
+    const collector = new CrawlStatisticsCollector();
+    latencies.forEach((latency, idx) => collector.addResponse(BACKEND + "/" + idx, BACKEND, 200, latency));
+    return collector;
+}
+
+describe("CrawlStatisticsCollector", () => {
+    test("the latencies of a backend", () => {
+        const latencies: number[] = [];
+        for (let i = 1; i <= 1000; i++) latencies.push(i);
+
+        const backend = collect(latencies).getStatistics().backends[BACKEND];
+
+        expect(backend.requestCount).toBe(1000);
+        expect(backend.min_ms).toBe(1);
+        expect(backend.max_ms).toBe(1000);
+        expect(backend.mean_ms).toBe(501);
+
+        // The percentiles have a precision of 5%.
+        expect(Math.abs(backend.p50_ms - 500)).toBeLessThanOrEqual(25);
+        expect(Math.abs(backend.p90_ms - 900)).toBeLessThanOrEqual(45);
+        expect(Math.abs(backend.p95_ms - 950)).toBeLessThanOrEqual(48);
+        expect(Math.abs(backend.p99_ms - 990)).toBeLessThanOrEqual(50);
+        expect(backend.p99_ms).toBeLessThanOrEqual(1000);
+    });
+
+    test("the percentiles stay between the min and the max", () => {
+        const backend = collect([120, 120, 120]).getStatistics().backends[BACKEND];
+
+        expect(backend.p50_ms).toBe(120);
+        expect(backend.p99_ms).toBe(120);
+
+        const fast = collect([0, 0.5]).getStatistics().backends[BACKEND];
+        expect(fast.p50_ms).toBe(0.5);
+    });
+
+    test("the state doesn't grow with the number of requests", () => {
+        const collector = new CrawlStatisticsCollector();
+        for (let i = 0; i < 10000; i++) collector.addResponse(BACKEND + "/page", BACKEND, 200, 100 + (i % 50));
+
+        const bucketCount = Object.keys(collector.getState().latencyHistograms[BACKEND].buckets).length;
+        const size = JSON.stringify(collector.getState()).length;
+        for (let i = 0; i < 10000; i++) collector.addResponse(BACKEND + "/page", BACKEND, 200, 100 + (i % 50));
+
+        // Only the counters change.
+        expect(Object.keys(collector.getState().latencyHistograms[BACKEND].buckets).length).toBe(bucketCount);
+        expect(JSON.stringify(collector.getState()).length).toBeLessThan(size + 20);
+        expect(collector.getStatistics().backends[BACKEND].requestCount).toBe(20000);
+    });
+
+    test("only the slowest urls are kept", () => {
+        const latencies: number[] = [];
+        for (let i = 0; i < 100; i++) latencies.push(i);
+
+        const slowest = collect(latencies).getStatistics().slowestUrls;
+
+        expect(slowest.length).toBe(20);
+        expect(slowest[0]).toEqual({url: BACKEND + "/99", backend: BACKEND, latency_ms: 99});
+        expect(slowest[19].latency_ms).toBe(80);
+    });
+
+    test("the state can be restored", () => {
+        const collector = collect([10, 20, 30]);
+        collector.addUrlState("ok");
+        collector.addBytes("text/html; charset=utf-8", 100);
+        collector.addRetry();
+
+        const state = JSON.parse(JSON.stringify(collector.getState()));
+
+        const restored = new CrawlStatisticsCollector();
+        restored.begin();
+        restored.restoreState(state);
+        restored.addResponse(BACKEND + "/new", BACKEND, 404, 40);
+
+        const statistics = restored.getStatistics();
+
+        expect(statistics.countByState).toEqual({ok: 1});
+        expect(statistics.countByStatus).toEqual({200: 3, 404: 1});
+        expect(statistics.bytesByContentType).toEqual({"text/html": 100});
+        expect(statistics.retryCount).toBe(1);
+        expect(statistics.backends[BACKEND].requestCount).toBe(4);
+        expect(statistics.backends[BACKEND].max_ms).toBe(40);
+        expect(statistics.duration_ms).toBeGreaterThanOrEqual(state.duration_ms);
+
+        // The state of the first collector isn't modified.
+        expect(collector.getStatistics().backends[BACKEND].requestCount).toBe(3);
+    });
+});
+
+describe("buildStatisticsHtmlReport", () => {
+    test("the values are escaped", () => {
+        const collector = new CrawlStatisticsCollector();
+        collector.addResponse(BACKEND + "/<script>", BACKEND, 200, 10);
+
+        const html = buildStatisticsHtmlReport(collector.getStatistics());
+
+        expect(html).toContain("/&lt;script&gt;");
+        expect(html).not.toContain("<script>");
+    });
+});
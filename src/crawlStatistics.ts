@@ -0,0 +1,383 @@
+/**
+ * The statistics of a crawling, given once the crawling is finished.
+ */
+export interface CrawlStatistics {
+    startDate: number;
+    endDate: number;
+
+    /**
+     * The wall-clock time of the crawling.
+     * If the crawling has been resumed, the time between the runs isn't counted.
+     */
+    duration_ms: number;
+
+    /**
+     * The number of urls for each state (ProcessUrlResult).
+     */
+    countByState: Record<string, number>;
+
+    /**
+     * The number of responses for each http status.
+     * The retries are included.
+     */
+    countByStatus: Record<string, number>;
+
+    /**
+     * The bytes downloaded for each content-type (ex: "image/png").
+     */
+    bytesByContentType: Record<string, number>;
+
+    totalBytes: number;
+
+    /**
+     * The number of requests which have been done again.
+     */
+    retryCount: number;
+
+    /**
+     * The urls with the highest latency, the slowest first.
+     */
+    slowestUrls: SlowUrl[];
+
+    /**
+     * The latencies of each UrlMapping backend, by origin.
+     */
+    backends: Record<string, BackendStatistics>;
+}
+
+export interface SlowUrl {
+    url: string;
+    backend: string;
+
+    /**
+     * The time before the response headers are received.
+     */
+    latency_ms: number;
+}
+
+/**
+ * The latencies of a backend.
+ * The percentiles are approximated, with a precision of 5%.
+ */
+export interface BackendStatistics {
+    requestCount: number;
+
+    min_ms: number;
+    max_ms: number;
+    mean_ms: number;
+
+    p50_ms: number;
+    p90_ms: number;
+    p95_ms: number;
+    p99_ms: number;
+}
+
+/**
+ * The data collected, as saved inside the checkpoints.
+ */
+export interface CrawlStatisticsState {
+    startDate: number;
+
+    /**
+     * The duration of the crawling when the state has been saved.
+     */
+    duration_ms: number;
+
+    countByState: Record<string, number>;
+    countByStatus: Record<string, number>;
+    bytesByContentType: Record<string, number>;
+    latencyHistograms: Record<string, LatencyHistogram>;
+    slowestUrls: SlowUrl[];
+    retryCount: number;
+    totalBytes: number;
+}
+
+/**
+ * The latencies of a backend.
+ * Only an histogram is kept, which avoids using more memory when the crawling is long.
+ */
+export interface LatencyHistogram {
+    count: number;
+    sum_ms: number;
+    min_ms: number;
+    max_ms: number;
+
+    /**
+     * The number of latencies inside each bucket, by bucket index.
+     * Each bucket is 5% wider than the previous one (see getBucketIndex).
+     */
+    buckets: Record<number, number>;
+}
+
+const SLOWEST_URLS_COUNT = 20;
+
+/**
+ * The ratio between the limits of two buckets.
+ * Gives percentiles with a precision of 5%.
+ */
+const BUCKET_RATIO = 1.05;
+
+/**
+ * Aggregate the events of a crawling.
+ */
+export class CrawlStatisticsCollector {
+    private startDate = Date.now();
+    private runStartDate = Date.now();
+
+    /**
+     * The duration of the previous runs, when the crawling has been resumed.
+     */
+    private previousDuration_ms = 0;
+
+    private readonly countByState: Record<string, number> = {};
+    private readonly countByStatus: Record<string, number> = {};
+    private readonly bytesByContentType: Record<string, number> = {};
+    private readonly latencyHistograms: Record<string, LatencyHistogram> = {};
+    private readonly slowestUrls: SlowUrl[] = [];
+    private retryCount = 0;
+    private totalBytes = 0;
+
+    /**
+     * Is called when the crawling starts.
+     */
+    begin() {
+        this.startDate = this.runStartDate = Date.now();
+    }
+
+    /**
+     * Returns the data collected, which allows continuing the statistics after a resume.
+     */
+    getState(): CrawlStatisticsState {
+        return {
+            startDate: this.startDate,
+            duration_ms: this.previousDuration_ms + Date.now() - this.runStartDate,
+            countByState: {...this.countByState},
+            countByStatus: {...this.countByStatus},
+            bytesByContentType: {...this.bytesByContentType},
+            latencyHistograms: Object.fromEntries(Object.entries(this.latencyHistograms).map(([k, v]) => [k, {...v, buckets: {...v.buckets}}])),
+            slowestUrls: [...this.slowestUrls],
+            retryCount: this.retryCount,
+            totalBytes: this.totalBytes
+        };
+    }
+
+    /**
+     * Restore the data saved by getState.
+     * Must be called after begin.
+     */
+    restoreState(state: CrawlStatisticsState) {
+        this.startDate = state.startDate;
+        this.previousDuration_ms = state.duration_ms;
+        Object.assign(this.countByState, state.countByState);
+        Object.assign(this.countByStatus, state.countByStatus);
+        Object.assign(this.bytesByContentType, state.bytesByContentType);
+        Object.assign(this.latencyHistograms, state.latencyHistograms);
+        this.slowestUrls.splice(0, this.slowestUrls.length, ...state.slowestUrls);
+        this.retryCount = state.retryCount;
+        this.totalBytes = state.totalBytes;
+    }
+
+    addUrlState(state: string) {
+        this.countByState[state] = (this.countByState[state] || 0) + 1;
+    }
+
+    addRetry() {
+        this.retryCount++;
+    }
+
+    /**
+     * Is called each time a response is received.
+     */
+    addResponse(url: string, backend: string, status: number, latency_ms: number) {
+        this.countByStatus[status] = (this.countByStatus[status] || 0) + 1;
+
+        let histogram = this.latencyHistograms[backend];
+
+        if (!histogram) {
+            this.latencyHistograms[backend] = histogram = {count: 0, sum_ms: 0, min_ms: latency_ms, max_ms: latency_ms, buckets: {}};
+        }
+
+        histogram.count++;
+        histogram.sum_ms += latency_ms;
+        histogram.min_ms = Math.min(histogram.min_ms, latency_ms);
+        histogram.max_ms = Math.max(histogram.max_ms, latency_ms);
+
+        const idx = getBucketIndex(latency_ms);
+        histogram.buckets[idx] = (histogram.buckets[idx] || 0) + 1;
+
+        const slowest = this.slowestUrls;
+
+        if ((slowest.length < SLOWEST_URLS_COUNT) || (latency_ms > slowest[slowest.length - 1].latency_ms)) {
+            slowest.push({url, backend, latency_ms});
+            slowest.sort((a, b) => b.latency_ms - a.latency_ms);
+            if (slowest.length > SLOWEST_URLS_COUNT) slowest.pop();
+        }
+    }
+
+    addBytes(contentType: string|null, size: number) {
+        let mimeType = contentType || "unknown";
+
+        let idx = mimeType.indexOf(";");
+        if (idx !== -1) mimeType = mimeType.substring(0, idx);
+        mimeType = mimeType.trim().toLowerCase();
+
+        this.bytesByContentType[mimeType] = (this.bytesByContentType[mimeType] || 0) + size;
+        this.totalBytes += size;
+    }
+
+    /**
+     * Returns the number of bytes downloaded since the crawling has started.
+     */
+    getTotalBytes(): number {
+        return this.totalBytes;
+    }
+
+    /**
+     * Returns a body counting the bytes read.
+     */
+    countBody(body: ReadableStream<Uint8Array>, contentType: string|null): ReadableStream<Uint8Array> {
+        let size = 0;
+
+        return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform: (chunk, controller) => {
+                size += chunk.length;
+                controller.enqueue(chunk);
+            },
+
+            flush: () => this.addBytes(contentType, size)
+        }));
+    }
+
+    getStatistics(): CrawlStatistics {
+        const endDate = Date.now();
+        const backends: Record<string, BackendStatistics> = {};
+
+        for (const backend in this.latencyHistograms) {
+            const histogram = this.latencyHistograms[backend];
+
+            backends[backend] = {
+                requestCount: histogram.count,
+                min_ms: histogram.min_ms,
+                max_ms: histogram.max_ms,
+                mean_ms: Math.round(histogram.sum_ms / histogram.count),
+                p50_ms: percentile(histogram, 50),
+                p90_ms: percentile(histogram, 90),
+                p95_ms: percentile(histogram, 95),
+                p99_ms: percentile(histogram, 99)
+            };
+        }
+
+        return {
+            startDate: this.startDate,
+            endDate,
+            duration_ms: this.previousDuration_ms + endDate - this.runStartDate,
+            countByState: {...this.countByState},
+            countByStatus: {...this.countByStatus},
+            bytesByContentType: {...this.bytesByContentType},
+            totalBytes: this.totalBytes,
+            retryCount: this.retryCount,
+            slowestUrls: [...this.slowestUrls],
+            backends
+        };
+    }
+}
+
+/**
+ * Returns the bucket of a latency.
+ * The bucket 0 is for the latencies under 1 ms, then bucket n is from 1.05^(n-1) to 1.05^n ms.
+ */
+function getBucketIndex(latency_ms: number): number {
+    if (latency_ms < 1) return 0;
+    return Math.floor(Math.log(latency_ms) / Math.log(BUCKET_RATIO)) + 1;
+}
+
+/**
+ * Returns the upper limit of the bucket containing the percentile,
+ * which is kept between the min and the max latency.
+ *
+ * @param histogram
+ *      The latencies.
+ * @param p
+ *      The percentile, from 0 to 100.
+ */
+function percentile(histogram: LatencyHistogram, p: number): number {
+    const rank = Math.max(Math.ceil((p / 100) * histogram.count), 1);
+    const indexes = Object.keys(histogram.buckets).map(Number).sort((a, b) => a - b);
+
+    let count = 0;
+
+    for (const idx of indexes) {
+        count += histogram.buckets[idx];
+
+        if (count >= rank) {
+            const upperLimit = Math.round(Math.pow(BUCKET_RATIO, idx));
+            return Math.min(Math.max(upperLimit, histogram.min_ms), histogram.max_ms);
+        }
+    }
+
+    return histogram.max_ms;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function formatBytes(size: number): string {
+    if (size < 1024) return size + " B";
+    if (size < 1024 * 1024) return (size / 1024).toFixed(1) + " KB";
+    return (size / (1024 * 1024)).toFixed(1) + " MB";
+}
+
+/**
+ * Build an HTML page showing the statistics.
+ * Is self-contained: no external CSS or script.
+ */
+export function buildStatisticsHtmlReport(stats: CrawlStatistics): string {
+    const table = (headers: string[], rows: (string|number)[][]) => {
+        let html = "<table>\n<tr>" + headers.map(h => "<th>" + escapeHtml(h) + "</th>").join("") + "</tr>\n";
+        rows.forEach(row => html += "<tr>" + row.map(c => "<td>" + escapeHtml(String(c)) + "</td>").join("") + "</tr>\n");
+        return html + "</table>\n";
+    };
+
+    const byState = Object.entries(stats.countByState).map(([state, count]) => [state, count]);
+    const byStatus = Object.entries(stats.countByStatus).map(([status, count]) => [status, count]);
+
+    const byContentType = Object.entries(stats.bytesByContentType)
+        .sort((a, b) => b[1] - a[1])
+        .map(([contentType, size]) => [contentType, formatBytes(size)]);
+
+    const backends = Object.entries(stats.backends).map(([backend, b]) => [
+        backend, b.requestCount, b.min_ms, b.mean_ms, b.p50_ms, b.p90_ms, b.p95_ms, b.p99_ms, b.max_ms
+    ]);
+
+    const slowest = stats.slowestUrls.map(s => [s.url, s.backend, s.latency_ms]);
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Crawling statistics</title>
+<style>
+body { font-family: sans-serif; }
+table { border-collapse: collapse; margin-bottom: 20px; }
+td, th { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Crawling statistics</h1>
+<p>${new Date(stats.startDate).toISOString()} - duration: ${(stats.duration_ms / 1000).toFixed(1)} s,
+downloaded: ${formatBytes(stats.totalBytes)}, retries: ${stats.retryCount}.</p>
+<h2>Urls by state</h2>
+${table(["State", "Count"], byState)}
+<h2>Responses by http status</h2>
+${table(["Status", "Count"], byStatus)}
+<h2>Bytes by content-type</h2>
+${table(["Content-type", "Size"], byContentType)}
+<h2>Latency by backend (ms)</h2>
+${table(["Backend", "Requests", "Min", "Mean", "P50", "P90", "P95", "P99", "Max"], backends)}
+<h2>Slowest urls (ms)</h2>
+${table(["Url", "Backend", "Latency"], slowest)}
+</body>
+</html>
+`;
+}
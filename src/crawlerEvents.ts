@@ -0,0 +1,163 @@
+import type {OnCrawlingFinishedInfos, ProcessUrlResult, UrlProcessedInfos} from "./common.ts";
+
+/**
+ * An url has been added to the urls to crawl.
+ */
+export interface QueuedEvent {
+    type: "queued";
+    url: string;
+
+    /**
+     * The page which has found this url.
+     * Is undefined for the entry point.
+     */
+    foundIn?: string;
+}
+
+/**
+ * An url has been downloaded, or is unchanged since the last crawling.
+ */
+export interface FetchedEvent {
+    type: "fetched";
+    url: string;
+    status?: number;
+    contentType?: string;
+    infos: UrlProcessedInfos;
+}
+
+export interface RedirectedEvent {
+    type: "redirected";
+    url: string;
+    target: string;
+    status?: number;
+    infos: UrlProcessedInfos;
+}
+
+/**
+ * An url is in error, or is too large.
+ */
+export interface UrlErrorEvent {
+    type: "error";
+    url: string;
+
+    /**
+     * The http status, if the server has responded.
+     */
+    status?: number;
+
+    error?: string;
+    infos: UrlProcessedInfos;
+}
+
+/**
+ * An url isn't fetched: excluded by a rule, blocked by robots.txt,
+ * or ignored since already crawled.
+ */
+export interface SkippedEvent {
+    type: "skipped";
+    url: string;
+    infos: UrlProcessedInfos;
+}
+
+/**
+ * A page and all its resources have been processed.
+ */
+export interface PageCompleteEvent {
+    type: "page-complete";
+    url: string;
+    state: ProcessUrlResult;
+}
+
+export interface FinishedEvent {
+    type: "finished";
+    infos: OnCrawlingFinishedInfos;
+}
+
+export type CrawlerEvent = QueuedEvent | FetchedEvent | RedirectedEvent | UrlErrorEvent | SkippedEvent | PageCompleteEvent | FinishedEvent;
+
+/**
+ * Store the events until they are read by the consumer.
+ * When too many events are waiting, the crawler waits before fetching the next urls.
+ */
+export class CrawlerEventQueue implements AsyncIterable<CrawlerEvent> {
+    private readonly events: CrawlerEvent[] = [];
+    private readonly spaceWaiters: (() => void)[] = [];
+    private eventWaiter?: () => void;
+    private isClosed = false;
+
+    /**
+     * @param highWaterMark
+     *      The number of events waiting from which the crawler is slowed down.
+     * @param onClose
+     *      Is called when the consumer stops reading.
+     */
+    constructor(private readonly highWaterMark: number, private readonly onClose?: () => void) {
+    }
+
+    push(event: CrawlerEvent) {
+        if (this.isClosed) return;
+
+        this.events.push(event);
+        this.wakeUpReader();
+    }
+
+    /**
+     * Returns true if the consumer is too slow.
+     */
+    isFull(): boolean {
+        return !this.isClosed && (this.events.length >= this.highWaterMark);
+    }
+
+    /**
+     * Wait until the consumer has read enough events.
+     */
+    waitForSpace(): Promise<void> {
+        if (!this.isFull()) return Promise.resolve();
+        return new Promise(resolve => this.spaceWaiters.push(resolve));
+    }
+
+    /**
+     * No more events will be sent.
+     * The events waiting can still be read.
+     */
+    end() {
+        this.isClosed = true;
+        this.wakeUpReader();
+        this.wakeUpWriters();
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<CrawlerEvent> {
+        return {
+            next: async (): Promise<IteratorResult<CrawlerEvent>> => {
+                while (!this.events.length) {
+                    if (this.isClosed) return {done: true, value: undefined};
+                    await new Promise<void>(resolve => this.eventWaiter = resolve);
+                }
+
+                const event = this.events.shift()!;
+                if (this.events.length < this.highWaterMark) this.wakeUpWriters();
+
+                return {done: false, value: event};
+            },
+
+            // Is called when the consumer exits a "for await" loop.
+            return: async (): Promise<IteratorResult<CrawlerEvent>> => {
+                this.events.length = 0;
+                this.end();
+                if (this.onClose) this.onClose();
+
+                return {done: true, value: undefined};
+            }
+        };
+    }
+
+    private wakeUpReader() {
+        const waiter = this.eventWaiter;
+        this.eventWaiter = undefined;
+        if (waiter) waiter();
+    }
+
+    private wakeUpWriters() {
+        this.spaceWaiters.splice(0).forEach(resolve => resolve());
+    }
+}
@@ -0,0 +1,53 @@
+import {describe, expect, test} from "bun:test";
+import {replaceCssUrls} from "./cssUrls.ts";
+
+const toUpper = (url: string) => url.toUpperCase();
+
+describe("replaceCssUrls", () => {
+    test("replace the urls with and without quotes", () => {
+        const css = `a{background:url(img/a.png)} b{background:url("img/b.png")} c{background:url( 'img/c.png' )}`;
+
+        expect(replaceCssUrls(css, toUpper)).toBe(
+            `a{background:url(IMG/A.PNG)} b{background:url("IMG/B.PNG")} c{background:url('IMG/C.PNG')}`);
+    });
+
+    test("replace the @import rules", () => {
+        const found: [string, boolean][] = [];
+
+        const res = replaceCssUrls(`@import "a.css"; @import 'b.css'; @import url(c.css);`, (url, isImport) => {
+            found.push([url, isImport]);
+            return "/new/" + url;
+        });
+
+        expect(res).toBe(`@import "/new/a.css"; @import '/new/b.css'; @import url(/new/c.css);`);
+        expect(found).toEqual([["a.css", true], ["b.css", true], ["c.css", true]]);
+    });
+
+    test("the strings which aren't urls are kept", () => {
+        const css = `a::before{content:"img/a.png"} b{font-family:'My Font'}`;
+        expect(replaceCssUrls(css, toUpper)).toBe(css);
+    });
+
+    test("the comments are kept as-is", () => {
+        const css = `/* url(old.png) */ a{background:url(new.png)}`;
+        expect(replaceCssUrls(css, toUpper)).toBe(`/* url(old.png) */ a{background:url(NEW.PNG)}`);
+    });
+
+    test("undefined or the same url keep the original text", () => {
+        const css = `a{background:url( "a.png" )}`;
+
+        expect(replaceCssUrls(css, () => undefined)).toBe(css);
+        expect(replaceCssUrls(css, url => url)).toBe(css);
+    });
+
+    test("the empty urls are ignored", () => {
+        const found: string[] = [];
+        replaceCssUrls(`a{background:url()} b{background:url("")}`, url => { found.push(url); return url; });
+        expect(found).toEqual([]);
+    });
+
+    test("works with a style attribute", () => {
+        expect(replaceCssUrls(`background-image: url(/img/hero.jpg); color: red`, url => "." + url))
+            .toBe(`background-image: url(./img/hero.jpg); color: red`);
+    });
+});
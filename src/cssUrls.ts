@@ -0,0 +1,55 @@
+/**
+ * Is called for each url found inside a CSS content.
+ * Returns the new url, or undefined to keep the url as-is.
+ *
+ * @param url
+ *      The url found.
+ * @param isImport
+ *      true if the url comes from an @import rule.
+ */
+export type CssUrlReplacer = (url: string, isImport: boolean) => string | undefined;
+
+const gCommentRegExp = /\/\*[\s\S]*?\*\//g;
+const gCssUrlRegExp = /(@import\s+)?(?:url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"]*?))\s*\)|"([^"]*)"|'([^']*)')/gi;
+
+/**
+ * Find the urls inside a CSS content and replace them.
+ * Handle url(...) and @import "...".
+ * Works with a full stylesheet, a <style> block or a style attribute.
+ */
+export function replaceCssUrls(css: string, replacer: CssUrlReplacer): string {
+    let result = "";
+    let lastIndex = 0;
+
+    // The comments are kept as-is.
+    for (const match of css.matchAll(gCommentRegExp)) {
+        result += replaceInCode(css.substring(lastIndex, match.index), replacer) + match[0];
+        lastIndex = match.index! + match[0].length;
+    }
+
+    return result + replaceInCode(css.substring(lastIndex), replacer);
+}
+
+function replaceInCode(css: string, replacer: CssUrlReplacer): string {
+    return css.replace(gCssUrlRegExp, (match, importRule: string|undefined,
+                                       dq: string|undefined, sq: string|undefined, raw: string|undefined,
+                                       importDq: string|undefined, importSq: string|undefined) => {
+
+        // Is a string which isn't after an @import.
+        if (!importRule && ((importDq !== undefined) || (importSq !== undefined))) return match;
+
+        const url = (dq ?? sq ?? raw ?? importDq ?? importSq ?? "").trim();
+        if (!url) return match;
+
+        const newUrl = replacer(url, !!importRule);
+        if ((newUrl === undefined) || (newUrl === url)) return match;
+
+        const prefix = importRule || "";
+
+        if (dq !== undefined) return prefix + 'url("' + newUrl + '")';
+        if (sq !== undefined) return prefix + "url('" + newUrl + "')";
+        if (raw !== undefined) return prefix + "url(" + newUrl + ")";
+        if (importDq !== undefined) return prefix + '"' + newUrl + '"';
+        return prefix + "'" + newUrl + "'";
+    });
+}
@@ -1,53 +1,111 @@
 import path from "node:path";
 import fs from "node:fs/promises";
-import type {CrawlerCache} from "./common.ts";
+import {createReadStream} from "node:fs";
+import {createHash} from "node:crypto";
+import type {CrawlerCache, CrawlerCacheMetadata} from "./common.ts";
+import type {QueryStringNaming} from "./queryStringNaming.ts";
+import {getCacheFilePath, resolvePathInsideDir} from "./cacheFilePath.ts";
 import * as ns_fs from "jopi-node-space/ns_fs";
 
+export interface DirectFileCacheOptions {
+    /**
+     * How the query string is included inside the file names.
+     * Must be the same as the crawler option, so that the links match the files.
+     */
+    queryStringNaming?: QueryStringNaming|false;
+
+    /**
+     * Allow overriding the file extension used for a content-type,
+     * when the url has no extension. Ex: {"application/rss+xml": ".rss"}.
+     * Must be the same as the crawler option.
+     */
+    mimeExtensions?: Record<string, string>;
+
+    /**
+     * Where the metadata of the files (ETag, Last-Modified) are stored.
+     * Default is the dir ".crawler-meta" inside the root dir,
+     * which must be excluded when publishing the mirror.
+     */
+    metadataDir?: string;
+}
+
+/**
+ * The name of the default metadata dir, inside the root dir.
+ */
+export const DEFAULT_METADATA_DIR = ".crawler-meta";
+
 export class DirectFileCache implements CrawlerCache {
     public readonly rootDir: string;
 
-    constructor(rootDir: string) {
+    /**
+     * Where the metadata of the entries are stored.
+     * The urls which would be stored inside this dir are ignored.
+     */
+    public readonly metadataDir: string;
+
+    private readonly options: DirectFileCacheOptions;
+
+    /**
+     * The content-type of the urls, once known.
+     * Allow naming the files without extension (ex: "/feed" --> "feed.xml").
+     */
+    private readonly contentTypes = new Map<string, string>();
+
+    /**
+     * @param rootDir
+     *      Where to store the files.
+     * @param options
+     *      Options about the file names and the metadata.
+     */
+    constructor(rootDir: string, options?: DirectFileCacheOptions) {
         if (!rootDir) rootDir = ".";
-        if (!path.isAbsolute(rootDir)) rootDir = path.resolve(process.cwd(), rootDir);
+        rootDir = path.resolve(process.cwd(), rootDir);
         this.rootDir = rootDir;
+        this.options = options || {};
+        this.metadataDir = path.resolve(this.options.metadataDir || path.join(rootDir, DEFAULT_METADATA_DIR));
     }
 
-    private calKey(url: string): string {
-        const url2 = new URL(url);
-        url2.hostname = "localhost";
-        url2.port = "";
-        url2.protocol = "file:";
-
-        const sURL = url2.toString();
-        return ns_fs.fileURLToPath(sURL);
+    private calcFilePath(url: string, contentType: string|undefined): string {
+        return resolvePathInsideDir(this.rootDir, getCacheFilePath(url, contentType, this.options));
     }
 
-    private calcFilePath(url: string): string {
-        let fp = path.join(this.rootDir, this.calKey(url));
-
-        if (fp.endsWith("/")) {
-            fp += "index.html";
-        } else {
-            const ext = path.extname(fp);
-            if (!ext) fp += "/index.html";
-        }
-
-        return fp;
+    /**
+     * The metadata path doesn't depend on the content-type,
+     * which allows finding it before knowing the content-type.
+     */
+    private calcMetadataPath(url: string): string {
+        const relPath = path.relative(this.rootDir, this.calcFilePath(url, undefined));
+        return path.join(this.metadataDir, relPath + ".json");
     }
 
     getKey(url: string): string {
-        return this.calcFilePath(url);
+        return this.calcFilePath(url, this.contentTypes.get(url));
     }
 
-    async addToCache(url: string, response: Response, _requestedByUrl: string): Promise<void> {
+    async addToCache(url: string, response: Response, _requestedByUrl: string, metadata?: CrawlerCacheMetadata): Promise<void> {
         // We don't store 404 and others.
         if (response.status !== 200) return;
 
-        const filePath = this.calcFilePath(url);
+        const contentType = response.headers.get("content-type");
+        if (contentType) this.contentTypes.set(url, contentType);
+
+        const filePath = this.getKey(url);
+
+        // Avoid a crawled url replacing our metadata.
+        if (isInsideDir(this.metadataDir, filePath)) return;
+
         await fs.mkdir(path.dirname(filePath), {recursive: true});
 
         try {
             await ns_fs.writeResponseToFile(response, filePath);
+
+            if (metadata) {
+                metadata = {...metadata, contentHash: await hashFile(filePath)};
+
+                const metadataPath = this.calcMetadataPath(url);
+                await fs.mkdir(path.dirname(metadataPath), {recursive: true});
+                await fs.writeFile(metadataPath, JSON.stringify(metadata), "utf-8");
+            }
         }
         catch (e) {
             console.error(e);
@@ -55,7 +113,10 @@ export class DirectFileCache implements CrawlerCache {
     }
 
     async hasInCache(url: string): Promise<boolean> {
-        const filePath = this.calcFilePath(url);
+        // Allow knowing the content-type, and so the file name.
+        if (!this.contentTypes.has(url)) await this.getMetadata(url);
+
+        const filePath = this.getKey(url);
 
         try {
             const stat = await ns_fs.getFileStat(filePath);
@@ -66,4 +127,62 @@ export class DirectFileCache implements CrawlerCache {
         }
 
     }
+
+    async getMetadata(url: string): Promise<CrawlerCacheMetadata|undefined> {
+        const metadata = await readMetadata(this.calcMetadataPath(url));
+
+        if (metadata && metadata.contentType) this.contentTypes.set(url, metadata.contentType);
+        return metadata;
+    }
+
+    async addFile(filePath: string, content: string): Promise<void> {
+        filePath = resolvePathInsideDir(this.rootDir, filePath);
+        await fs.mkdir(path.dirname(filePath), {recursive: true});
+        await fs.writeFile(filePath, content, "utf-8");
+    }
+
+    /**
+     * Allow modifying the content of a text file stored in the cache.
+     * Is used to fix the links once the real name of a file is known.
+     */
+    async rewriteFile(url: string, transform: (content: string) => string): Promise<void> {
+        const filePath = this.getKey(url);
+
+        try {
+            const content = await fs.readFile(filePath, "utf-8");
+            const newContent = transform(content);
+            if (newContent !== content) await fs.writeFile(filePath, newContent, "utf-8");
+        }
+        catch (e) {
+            console.error(e);
+        }
+    }
+}
+
+async function readMetadata(filePath: string): Promise<CrawlerCacheMetadata|undefined> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, "utf-8")) as CrawlerCacheMetadata;
+    }
+    catch {
+        return undefined;
+    }
+}
+
+function isInsideDir(dir: string, filePath: string): boolean {
+    const relPath = path.relative(dir, filePath);
+    return (relPath !== "..") && !relPath.startsWith(".." + path.sep) && !path.isAbsolute(relPath);
+}
+
+/**
+ * Returns the sha256 of the content of a file, which is read by chunks.
+ */
+export function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = createHash("sha256");
+
+        createReadStream(filePath)
+            .on("data", chunk => hash.update(chunk))
+            .on("end", () => resolve(hash.digest("hex")))
+            .on("error", reject);
+    });
 }
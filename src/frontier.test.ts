@@ -0,0 +1,166 @@
+import {describe, expect, test} from "bun:test";
+import {BfsFrontier, createPageScoring, type CrawlerFrontier, DfsFrontier, type FrontierPage, PriorityFrontier} from "./frontier.ts";
+import {ONE_DAY} from "./utils.ts";
+
+const B = "https://my-site";
+
+function page(path: string, infos?: Omit<FrontierPage, "url">): FrontierPage {
+    return {url: B + path, ...infos};
+}
+
+function popAll(frontier: CrawlerFrontier): string[] {
+    const urls: string[] = [];
+    let p: FrontierPage|undefined;
+
+    while ((p = frontier.pop())) urls.push(p.url.substring(B.length));
+    return urls;
+}
+
+describe("BfsFrontier", () => {
+    test("the pages are crawled in the order they have been found", () => {
+        const frontier = new BfsFrontier();
+        frontier.push([page("/a"), page("/b")]);
+        frontier.push([page("/c")]);
+
+        expect(frontier.size).toBe(3);
+        expect(frontier.pop()!.url).toBe(B + "/a");
+
+        frontier.push([page("/d")]);
+        expect(popAll(frontier)).toEqual(["/b", "/c", "/d"]);
+        expect(frontier.size).toBe(0);
+        expect(frontier.pop()).toBeUndefined();
+    });
+
+    test("pushFirst puts the page before the others", () => {
+        const frontier = new BfsFrontier();
+        frontier.push([page("/a"), page("/b")]);
+        frontier.pop();
+        frontier.pushFirst(page("/interrupted"));
+        frontier.pushFirst(page("/interrupted2"));
+
+        expect(frontier.getAll().map(p => p.url)).toEqual([B + "/interrupted2", B + "/interrupted", B + "/b"]);
+        expect(popAll(frontier)).toEqual(["/interrupted2", "/interrupted", "/b"]);
+    });
+
+    test("the objects are returned as-is", () => {
+        const frontier = new BfsFrontier();
+        const p = page("/a");
+        frontier.push([p]);
+        expect(frontier.pop()).toBe(p);
+    });
+
+    test("keeps the order with a lot of pages", () => {
+        const frontier = new BfsFrontier();
+        const count = 5000;
+
+        for (let i = 0; i < count; i++) frontier.push([page("/" + i)]);
+        for (let i = 0; i < count / 2; i++) expect(frontier.pop()!.url).toBe(B + "/" + i);
+
+        frontier.push([page("/last")]);
+        expect(frontier.size).toBe(count / 2 + 1);
+        expect(frontier.getAll()[0].url).toBe(B + "/" + (count / 2));
+
+        const rest = popAll(frontier);
+        expect(rest.length).toBe(count / 2 + 1);
+        expect(rest[rest.length - 1]).toBe("/last");
+    });
+});
+
+describe("DfsFrontier", () => {
+    test("the links of the last page are followed first, in the order found", () => {
+        const frontier = new DfsFrontier();
+        frontier.push([page("/a"), page("/b")]);
+        expect(frontier.pop()!.url).toBe(B + "/a");
+
+        frontier.push([page("/a/1"), page("/a/2")]);
+        expect(frontier.getAll().map(p => p.url.substring(B.length))).toEqual(["/a/1", "/a/2", "/b"]);
+        expect(popAll(frontier)).toEqual(["/a/1", "/a/2", "/b"]);
+    });
+
+    test("pushFirst puts the page before the others", () => {
+        const frontier = new DfsFrontier();
+        frontier.push([page("/a"), page("/b")]);
+        frontier.pushFirst(page("/interrupted"));
+        expect(popAll(frontier)).toEqual(["/interrupted", "/a", "/b"]);
+    });
+});
+
+describe("PriorityFrontier", () => {
+    test("the highest score first, then the order found", () => {
+        const scores: Record<string, number> = {"/low": 1, "/high": 10, "/mid": 5, "/mid2": 5};
+        const frontier = new PriorityFrontier(p => scores[p.url.substring(B.length)]);
+
+        frontier.push([page("/low"), page("/mid"), page("/high"), page("/mid2")]);
+
+        expect(frontier.getAll().map(p => p.url.substring(B.length))).toEqual(["/high", "/mid", "/mid2", "/low"]);
+        expect(popAll(frontier)).toEqual(["/high", "/mid", "/mid2", "/low"]);
+    });
+
+    test("the order found is kept for a lot of pages with the same score", () => {
+        const frontier = new PriorityFrontier(() => 0);
+        const urls: string[] = [];
+
+        for (let i = 0; i < 200; i++) {
+            urls.push("/" + i);
+            frontier.push([page("/" + i)]);
+        }
+
+        expect(popAll(frontier)).toEqual(urls);
+    });
+
+    test("pushFirst pages are before the scored pages", () => {
+        const frontier = new PriorityFrontier(() => 100);
+        frontier.push([page("/a")]);
+        frontier.pushFirst(page("/interrupted"));
+
+        expect(frontier.size).toBe(2);
+        expect(popAll(frontier)).toEqual(["/interrupted", "/a"]);
+    });
+
+    test("the default scoring crawls the pages near the entry point first", () => {
+        const frontier = new PriorityFrontier();
+        frontier.push([page("/deep", {depth: 3}), page("/near", {depth: 1}), page("/root", {depth: 0})]);
+        expect(popAll(frontier)).toEqual(["/root", "/near", "/deep"]);
+    });
+});
+
+describe("createPageScoring", () => {
+    test("the depth", () => {
+        expect(createPageScoring()(page("/a", {depth: 2}))).toBe(-2);
+        expect(createPageScoring({depthWeight: -3})(page("/a", {depth: 2}))).toBe(-6);
+        expect(createPageScoring()(page("/a"))).toBeCloseTo(0);
+    });
+
+    test("the sitemap priority", () => {
+        expect(createPageScoring()(page("/a", {sitemapPriority: 0.5}))).toBe(5);
+        expect(createPageScoring({sitemapPriorityWeight: 2})(page("/a", {sitemapPriority: 0.5}))).toBe(1);
+    });
+
+    test("the last modification date", () => {
+        const scoring = createPageScoring();
+
+        expect(scoring(page("/a", {lastModified: Date.now()}))).toBeCloseTo(5, 2);
+        expect(scoring(page("/a", {lastModified: Date.now() - 365 * ONE_DAY / 2}))).toBeCloseTo(2.5, 2);
+        expect(scoring(page("/a", {lastModified: Date.now() - 400 * ONE_DAY}))).toBe(0);
+
+        // A date in the future is like today.
+        expect(scoring(page("/a", {lastModified: Date.now() + ONE_DAY}))).toBe(5);
+    });
+
+    test("the matching patterns are added", () => {
+        const scoring = createPageScoring({
+            depthWeight: 0,
+            patterns: [
+                {glob: "/docs/**", score: 10},
+                {regExp: "\\?lang=en", score: 3},
+                {glob: "/docs/**", regExp: /draft/, score: -20}
+            ]
+        });
+
+        expect(scoring(page("/docs/intro"))).toBe(10);
+        expect(scoring(page("/docs/intro?lang=en"))).toBe(13);
+        expect(scoring(page("/docs/draft-page"))).toBe(-10);
+        expect(scoring(page("/blog/draft?lang=en"))).toBe(3);
+        expect(scoring(page("/blog"))).toBe(0);
+    });
+});
@@ -0,0 +1,323 @@
+import {addRoute, createRouter, findRoute, type RouterContext} from "rou3";
+import {ONE_DAY} from "./utils.ts";
+
+/**
+ * A page waiting to be crawled.
+ */
+export interface FrontierPage {
+    url: string;
+
+    /**
+     * The number of links followed from the entry point.
+     */
+    depth?: number;
+
+    /**
+     * The priority found in the sitemap, from 0.0 to 1.0.
+     */
+    sitemapPriority?: number;
+
+    /**
+     * The date of the last modification found in the sitemap.
+     */
+    lastModified?: number;
+}
+
+/**
+ * Store the pages waiting to be crawled, and decide which one is crawled next.
+ * The pages given are objects of the crawler: they must be returned as-is.
+ */
+export interface CrawlerFrontier {
+    /**
+     * Add the pages found in the same page, in the order they have been found.
+     */
+    push(pages: FrontierPage[]): void;
+
+    /**
+     * Add a page which must be crawled before the others.
+     * Is used for the pages interrupted when the crawling is stopped.
+     */
+    pushFirst(page: FrontierPage): void;
+
+    /**
+     * Remove the next page to crawl and returns it.
+     */
+    pop(): FrontierPage|undefined;
+
+    /**
+     * Returns all the pages waiting, the next first.
+     * Is used to save the checkpoints.
+     */
+    getAll(): FrontierPage[];
+
+    readonly size: number;
+}
+
+/**
+ * Breadth-first: the pages are crawled in the order they have been found.
+ * Is the default frontier.
+ */
+export class BfsFrontier implements CrawlerFrontier {
+    private items: (FrontierPage|undefined)[] = [];
+    private head = 0;
+
+    get size(): number {
+        return this.items.length - this.head;
+    }
+
+    push(pages: FrontierPage[]) {
+        this.items.push(...pages);
+    }
+
+    pushFirst(page: FrontierPage) {
+        if (this.head > 0) this.items[--this.head] = page;
+        else this.items.unshift(page);
+    }
+
+    pop(): FrontierPage|undefined {
+        if (this.head >= this.items.length) return undefined;
+
+        const page = this.items[this.head];
+        this.items[this.head++] = undefined;
+
+        // Avoid shift(), which is slow with a lot of items.
+        if ((this.head > 1024) && (this.head * 2 > this.items.length)) {
+            this.items = this.items.slice(this.head);
+            this.head = 0;
+        }
+
+        return page;
+    }
+
+    getAll(): FrontierPage[] {
+        return this.items.slice(this.head) as FrontierPage[];
+    }
+}
+
+/**
+ * Depth-first: the links of the last page crawled are followed first.
+ * Allow reaching the deep pages quickly.
+ */
+export class DfsFrontier implements CrawlerFrontier {
+    private readonly items: FrontierPage[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(pages: FrontierPage[]) {
+        // Reversed, which allows the first link found to be crawled first.
+        for (let i = pages.length - 1; i >= 0; i--) this.items.push(pages[i]);
+    }
+
+    pushFirst(page: FrontierPage) {
+        this.items.push(page);
+    }
+
+    pop(): FrontierPage|undefined {
+        return this.items.pop();
+    }
+
+    getAll(): FrontierPage[] {
+        return [...this.items].reverse();
+    }
+}
+
+/**
+ * Returns the score of a page. The pages with the highest score are crawled first.
+ */
+export type PageScoring = (page: FrontierPage) => number;
+
+interface HeapItem {
+    page: FrontierPage;
+    score: number;
+
+    /**
+     * The insertion order: pages with the same score are crawled in the order they have been found.
+     */
+    order: number;
+}
+
+/**
+ * The pages with the highest score are crawled first.
+ * Allow the important parts of a website to be crawled first,
+ * which is useful when the crawling is limited in time.
+ */
+export class PriorityFrontier implements CrawlerFrontier {
+    private readonly heap: HeapItem[] = [];
+    private readonly first: FrontierPage[] = [];
+    private readonly scoring: PageScoring;
+    private order = 0;
+
+    /**
+     * @param scoring
+     *      Returns the score of a page. Default is createPageScoring().
+     */
+    constructor(scoring?: PageScoring) {
+        this.scoring = scoring || createPageScoring();
+    }
+
+    get size(): number {
+        return this.first.length + this.heap.length;
+    }
+
+    push(pages: FrontierPage[]) {
+        pages.forEach(page => {
+            this.heap.push({page, score: this.scoring(page), order: this.order++});
+            this.siftUp(this.heap.length - 1);
+        });
+    }
+
+    pushFirst(page: FrontierPage) {
+        this.first.unshift(page);
+    }
+
+    pop(): FrontierPage|undefined {
+        if (this.first.length) return this.first.shift();
+
+        const heap = this.heap;
+        if (!heap.length) return undefined;
+
+        const top = heap[0];
+        const last = heap.pop()!;
+
+        if (heap.length) {
+            heap[0] = last;
+            this.siftDown(0);
+        }
+
+        return top.page;
+    }
+
+    getAll(): FrontierPage[] {
+        const sorted = [...this.heap].sort((a, b) => this.isBefore(a, b) ? -1 : 1);
+        return [...this.first, ...sorted.map(item => item.page)];
+    }
+
+    private isBefore(a: HeapItem, b: HeapItem): boolean {
+        if (a.score !== b.score) return a.score > b.score;
+        return a.order < b.order;
+    }
+
+    private siftUp(idx: number) {
+        const heap = this.heap;
+
+        while (idx > 0) {
+            const parent = (idx - 1) >> 1;
+            if (!this.isBefore(heap[idx], heap[parent])) break;
+
+            [heap[idx], heap[parent]] = [heap[parent], heap[idx]];
+            idx = parent;
+        }
+    }
+
+    private siftDown(idx: number) {
+        const heap = this.heap;
+
+        while (true) {
+            const left = idx * 2 + 1;
+            const right = left + 1;
+            let best = idx;
+
+            if ((left < heap.length) && this.isBefore(heap[left], heap[best])) best = left;
+            if ((right < heap.length) && this.isBefore(heap[right], heap[best])) best = right;
+            if (best === idx) break;
+
+            [heap[idx], heap[best]] = [heap[best], heap[idx]];
+            idx = best;
+        }
+    }
+}
+
+/**
+ * A score added to the pages matching a pattern.
+ */
+export interface PageScorePattern {
+    /**
+     * A glob, with the same syntax as the UrlMapping routes.
+     * Ex: "/docs/**".
+     */
+    glob?: string;
+
+    /**
+     * A regular expression tested on the local url, with his query string.
+     */
+    regExp?: RegExp | string;
+
+    score: number;
+}
+
+export interface PageScoringOptions {
+    /**
+     * Added for each link followed from the entry point.
+     * Default is -1: the pages near the entry point are crawled first.
+     */
+    depthWeight?: number;
+
+    /**
+     * The scores of the pages matching a pattern.
+     * All the matching patterns are added.
+     */
+    patterns?: PageScorePattern[];
+
+    /**
+     * Multiply the sitemap priority (0.0 to 1.0).
+     * Default is 10.
+     */
+    sitemapPriorityWeight?: number;
+
+    /**
+     * The score of a page modified today, according to the sitemap.
+     * Is reduced with the age of the modification, down to 0 after one year.
+     * Default is 5.
+     */
+    lastModifiedWeight?: number;
+}
+
+/**
+ * Returns a scoring function using the depth, url patterns,
+ * the sitemap priority and the last modification date.
+ */
+export function createPageScoring(options?: PageScoringOptions): PageScoring {
+    const depthWeight = options?.depthWeight ?? -1;
+    const sitemapPriorityWeight = options?.sitemapPriorityWeight ?? 10;
+    const lastModifiedWeight = options?.lastModifiedWeight ?? 5;
+
+    const patterns = (options?.patterns || []).map(pattern => {
+        let router: RouterContext<boolean>|undefined;
+
+        if (pattern.glob) {
+            router = createRouter<boolean>();
+            addRoute(router, "GET", pattern.glob, true);
+        }
+
+        const regExp = (typeof pattern.regExp === "string") ? new RegExp(pattern.regExp) : pattern.regExp;
+        return {router, regExp, score: pattern.score};
+    });
+
+    return (page: FrontierPage) => {
+        let score = (page.depth || 0) * depthWeight;
+
+        if (page.sitemapPriority !== undefined) {
+            score += page.sitemapPriority * sitemapPriorityWeight;
+        }
+
+        if (page.lastModified !== undefined) {
+            const age = Math.max(0, Date.now() - page.lastModified);
+            score += lastModifiedWeight * Math.max(0, 1 - age / (365 * ONE_DAY));
+        }
+
+        if (patterns.length) {
+            const urlInfos = new URL(page.url);
+            const localUrl = urlInfos.pathname + urlInfos.search;
+
+            for (const pattern of patterns) {
+                if (pattern.router && !findRoute(pattern.router, "GET", urlInfos.pathname)) continue;
+                if (pattern.regExp && !pattern.regExp.test(localUrl)) continue;
+                score += pattern.score;
+            }
+        }
+
+        return score;
+    };
+}
@@ -1,4 +1,21 @@
 export * from "./common.ts";
 export * from "./core.ts";
 export * from "./utils.ts";
-export * from "./urlMapping.ts";
\ No newline at end of file
+export * from "./urlMapping.ts";
+export * from "./linkGraph.ts";
+export * from "./urlRules.ts";
+export * from "./queryStringNaming.ts";
+export * from "./warcCache.ts";
+export * from "./archiveCache.ts";
+export * from "./contentAddressableCache.ts";
+export * from "./redirects.ts";
+export * from "./linkChecker.ts";
+export * from "./crawlStatistics.ts";
+export * from "./retryPolicy.ts";
+export * from "./cookieJar.ts";
+export * from "./authentication.ts";
+export * from "./requestLimits.ts";
+export * from "./urlCanonicalization.ts";
+export * from "./frontier.ts";
+export * from "./crawlerEvents.ts";
+export * from "./cliConfig.ts";
\ No newline at end of file
@@ -0,0 +1,281 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {getErrorMessage} from "jopi-node-space/ns_tools";
+
+export interface LinkCheckOptions {
+    /**
+     * If true, the links to others websites are checked with HEAD requests.
+     * Default is true.
+     */
+    checkExternalLinks?: boolean;
+
+    /**
+     * The timeout when checking an external link.
+     * Default is 15 seconds.
+     */
+    externalTimeout_ms?: number;
+
+    /**
+     * Where to write the JSON report.
+     */
+    jsonReportPath?: string;
+
+    /**
+     * Where to write the HTML report.
+     */
+    htmlReportPath?: string;
+}
+
+/**
+ * Where a link has been found.
+ */
+export interface LinkReference {
+    /**
+     * The page (or CSS file) containing the link.
+     */
+    page: string;
+
+    /**
+     * How the link is included (ex: "a[href]", "img[srcset]", "css url()").
+     */
+    element: string;
+
+    /**
+     * The opening tag of the element (ex: <a href="/old" class="btn">).
+     */
+    html?: string;
+}
+
+export interface BrokenLink {
+    url: string;
+    isExternal: boolean;
+
+    /**
+     * The http status, if the server has responded.
+     */
+    status?: number;
+
+    /**
+     * The error message, if the server hasn't responded.
+     */
+    error?: string;
+
+    referrers: LinkReference[];
+}
+
+export interface LinkCheckReport {
+    date: number;
+    entryPoint: string;
+
+    checkedUrlCount: number;
+    brokenLinks: BrokenLink[];
+
+    /**
+     * Is 0 if no broken link has been found, otherwise 1.
+     * Allow failing a CI job.
+     */
+    exitCode: number;
+}
+
+interface LinkResult {
+    status?: number;
+    error?: string;
+}
+
+/**
+ * Collect the links found while crawling and the urls in error,
+ * then build a report of the broken links.
+ */
+export class LinkChecker {
+    private readonly options: LinkCheckOptions;
+
+    /**
+     * The references of the urls which aren't known as valid.
+     * The references to a valid url are forgotten, which saves memory.
+     */
+    private readonly references = new Map<string, LinkReference[]>();
+
+    private readonly externalUrls = new Set<string>();
+    private readonly validUrls = new Set<string>();
+    private readonly brokenUrls = new Map<string, LinkResult>();
+
+    constructor(options: LinkCheckOptions, private readonly userAgent: string, private readonly concurrency: number) {
+        this.options = {checkExternalLinks: true, externalTimeout_ms: 15000, ...options};
+    }
+
+    addReference(url: string, isExternal: boolean, reference: LinkReference) {
+        if (this.validUrls.has(url)) return;
+        if (isExternal) this.externalUrls.add(url);
+
+        let list = this.references.get(url);
+        if (!list) this.references.set(url, list = []);
+        list.push(reference);
+    }
+
+    /**
+     * Set the result of an url of the website.
+     */
+    setResult(url: string, isBroken: boolean, status?: number, error?: string) {
+        if (isBroken) {
+            this.brokenUrls.set(url, {status, error});
+        } else {
+            this.validUrls.add(url);
+            this.references.delete(url);
+        }
+    }
+
+    /**
+     * Check the external links, then build the report and write the report files.
+     */
+    async finish(entryPoint: string): Promise<LinkCheckReport> {
+        if (this.options.checkExternalLinks) {
+            await this.checkExternalLinks();
+        }
+
+        const brokenLinks: BrokenLink[] = [];
+
+        for (const [url, result] of this.brokenUrls) {
+            brokenLinks.push({
+                url, isExternal: this.externalUrls.has(url),
+                status: result.status, error: result.error,
+                referrers: this.references.get(url) || []
+            });
+        }
+
+        brokenLinks.sort((a, b) => a.url.localeCompare(b.url));
+
+        const report: LinkCheckReport = {
+            date: Date.now(),
+            entryPoint,
+            checkedUrlCount: this.validUrls.size + this.brokenUrls.size,
+            brokenLinks,
+            exitCode: brokenLinks.length ? 1 : 0
+        };
+
+        if (this.options.jsonReportPath) {
+            await writeFile(this.options.jsonReportPath, JSON.stringify(report, null, 4));
+        }
+
+        if (this.options.htmlReportPath) {
+            await writeFile(this.options.htmlReportPath, buildHtmlReport(report));
+        }
+
+        return report;
+    }
+
+    private async checkExternalLinks() {
+        const urls = Array.from(this.externalUrls);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < urls.length) {
+                const url = urls[next++];
+                const result = await this.checkExternalLink(url);
+
+                const isBroken = (result.status === undefined) || (result.status >= 400);
+                this.setResult(url, isBroken, result.status, result.error);
+            }
+        };
+
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < this.concurrency; i++) workers.push(worker());
+        await Promise.all(workers);
+    }
+
+    private async checkExternalLink(url: string): Promise<LinkResult> {
+        let result = await this.request(url, "HEAD");
+
+        // Some servers don't support HEAD, or respond differently.
+        if ((result.status === undefined) || (result.status >= 400)) {
+            result = await this.request(url, "GET");
+        }
+
+        return result;
+    }
+
+    private async request(url: string, method: string): Promise<LinkResult> {
+        try {
+            const res = await fetch(url, {
+                method,
+                redirect: "follow",
+                headers: {"user-agent": this.userAgent},
+                signal: AbortSignal.timeout(this.options.externalTimeout_ms!)
+            });
+
+            // We only need the status.
+            if (res.body) await res.body.cancel();
+
+            return {status: res.status};
+        }
+        catch (e) {
+            return {error: getErrorMessage(e)};
+        }
+    }
+}
+
+/**
+ * Returns the opening tag of an element, which allows finding it inside the page.
+ */
+export function describeElement(name: string, attribs: Record<string, string>): string {
+    let html = "<" + name;
+
+    for (const key in attribs) {
+        html += " " + key + "=\"" + attribs[key].replace(/"/g, "&quot;") + "\"";
+    }
+
+    html += ">";
+    if (html.length > 300) html = html.substring(0, 297) + "...";
+
+    return html;
+}
+
+async function writeFile(filePath: string, content: string) {
+    await fs.mkdir(path.dirname(filePath), {recursive: true});
+    await fs.writeFile(filePath, content, "utf-8");
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function buildHtmlReport(report: LinkCheckReport): string {
+    let rows = "";
+
+    for (const link of report.brokenLinks) {
+        const what = link.status !== undefined ? String(link.status) : (link.error || "error");
+
+        let referrers = "";
+
+        link.referrers.forEach(r => {
+            referrers += "<li><a href=\"" + escapeHtml(r.page) + "\">" + escapeHtml(r.page) + "</a> - "
+                + escapeHtml(r.element) + (r.html ? " <code>" + escapeHtml(r.html) + "</code>" : "") + "</li>";
+        });
+
+        rows += "<tr><td><a href=\"" + escapeHtml(link.url) + "\">" + escapeHtml(link.url) + "</a>"
+            + (link.isExternal ? " (external)" : "") + "</td>"
+            + "<td>" + escapeHtml(what) + "</td>"
+            + "<td><ul>" + referrers + "</ul></td></tr>\n";
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Broken links - ${escapeHtml(report.entryPoint)}</title>
+<style>
+body { font-family: sans-serif; }
+table { border-collapse: collapse; width: 100%; }
+td, th { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+code { color: #555; }
+</style>
+</head>
+<body>
+<h1>Broken links - ${escapeHtml(report.entryPoint)}</h1>
+<p>${new Date(report.date).toISOString()} - ${report.checkedUrlCount} urls checked, ${report.brokenLinks.length} broken.</p>
+<table>
+<tr><th>Url</th><th>Status</th><th>Found in</th></tr>
+${rows}</table>
+</body>
+</html>
+`;
+}
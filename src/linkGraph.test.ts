@@ -0,0 +1,62 @@
+import {describe, expect, test} from "bun:test";
+import {LinkGraph} from "./linkGraph.ts";
+
+const B = "https://my-site";
+
+function buildGraph(): LinkGraph {
+    const graph = new LinkGraph(B + "/");
+
+    graph.markAsPage(B + "/");
+    graph.markAsPage(B + "/products");
+    graph.markAsPage(B + "/product/42");
+
+    graph.addEdge(B + "/", B + "/products", "a[href]");
+    graph.addEdge(B + "/products", B + "/product/42", "a[href]");
+    graph.addEdge(B + "/product/42", B + "/css/style.css", "link[href]");
+    graph.addEdge(B + "/css/style.css", B + "/img/bg.png", "css url()");
+    graph.addEdge(B + "/product/42", "https://other-site/page", "a[href]", true);
+
+    return graph;
+}
+
+describe("LinkGraph", () => {
+    test("the referrers and the dependencies", () => {
+        const graph = buildGraph();
+
+        expect(graph.getReferrers("/img/bg.png")).toEqual([{source: B + "/css/style.css", target: B + "/img/bg.png", via: "css url()"}]);
+        expect(graph.getDependencies("/product/42").map(e => e.target)).toEqual([B + "/css/style.css", "https://other-site/page"]);
+        expect(graph.isPage("/products")).toBe(true);
+        expect(graph.isPage("/css/style.css")).toBe(false);
+    });
+
+    test("an edge is only added once", () => {
+        const graph = buildGraph();
+        graph.addEdge(B + "/", B + "/products", "a[href]");
+
+        expect(graph.getReferrers("/products").length).toBe(1);
+    });
+
+    test("the pages to invalidate", () => {
+        const graph = buildGraph();
+
+        expect(graph.getPagesToInvalidate("/img/bg.png")).toEqual([B + "/product/42"]);
+        expect(graph.getPagesToInvalidate("/product/42").sort()).toEqual([B + "/product/42", B + "/products"]);
+        expect(graph.getPagesToInvalidate("/product/42", true).sort()).toEqual([B + "/", B + "/product/42", B + "/products"]);
+    });
+
+    test("the links to the others websites", () => {
+        const graph = buildGraph();
+
+        expect(graph.getExternalLinks()).toEqual([{source: B + "/product/42", target: "https://other-site/page", via: "a[href]", external: true}]);
+        expect(graph.getReferrers("https://other-site/page")[0].external).toBe(true);
+        expect(graph.getPagesToInvalidate("https://other-site/page")).toEqual([B + "/product/42"]);
+    });
+
+    test("the JSON keeps the graph", () => {
+        const graph = buildGraph();
+        const copy = LinkGraph.fromJSON(JSON.parse(JSON.stringify(graph)), B);
+
+        expect(copy.toJSON()).toEqual(graph.toJSON());
+        expect(copy.getExternalLinks().length).toBe(1);
+    });
+});
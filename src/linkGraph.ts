@@ -0,0 +1,170 @@
+export interface LinkEdge {
+    /**
+     * The url of the page (or the CSS) containing the link.
+     */
+    source: string;
+
+    /**
+     * The url the link points to.
+     */
+    target: string;
+
+    /**
+     * From where the link comes.
+     * Ex: "img[src]", "a[href]", "css url()", "redirect".
+     */
+    via: string;
+
+    /**
+     * Is true if the target is on another website.
+     * These targets aren't crawled, so they are never pages of the graph.
+     */
+    external?: boolean;
+}
+
+export interface LinkGraphJson {
+    pages: string[];
+    edges: LinkEdge[];
+}
+
+/**
+ * Store the links between the pages and resources of a website.
+ * Allows knowing which pages are using a resource,
+ * and so which pages must be invalidated when this resource changes.
+ */
+export class LinkGraph {
+    private readonly edgesBySource = new Map<string, LinkEdge[]>();
+    private readonly edgesByTarget = new Map<string, LinkEdge[]>();
+    private readonly edgeKeys = new Set<string>();
+    private readonly pages = new Set<string>();
+
+    /**
+     * @param baseUrl
+     *      If set, allows using local urls (ex: "/product/42") with the query functions.
+     */
+    constructor(private readonly baseUrl?: string) {
+        if (baseUrl && baseUrl.endsWith("/")) this.baseUrl = baseUrl.slice(0, -1);
+    }
+
+    /**
+     * @param source
+     *      The url of the page (or the CSS) containing the link.
+     * @param target
+     *      The url the link points to.
+     * @param via
+     *      From where the link comes.
+     * @param external
+     *      true if the target is on another website.
+     */
+    addEdge(source: string, target: string, via: string, external?: boolean): void {
+        const key = source + " " + target + " " + via;
+        if (this.edgeKeys.has(key)) return;
+        this.edgeKeys.add(key);
+
+        const edge: LinkEdge = external ? {source, target, via, external} : {source, target, via};
+
+        let list = this.edgesBySource.get(source);
+        if (!list) this.edgesBySource.set(source, list = []);
+        list.push(edge);
+
+        list = this.edgesByTarget.get(target);
+        if (!list) this.edgesByTarget.set(target, list = []);
+        list.push(edge);
+    }
+
+    /**
+     * Mark this url as being an HTML page.
+     */
+    markAsPage(url: string): void {
+        this.pages.add(url);
+    }
+
+    isPage(url: string): boolean {
+        return this.pages.has(this.normalize(url));
+    }
+
+    /**
+     * Returns the links pointing to this url.
+     */
+    getReferrers(url: string): LinkEdge[] {
+        return this.edgesByTarget.get(this.normalize(url)) || [];
+    }
+
+    /**
+     * Returns the links found inside this page (or CSS).
+     */
+    getDependencies(page: string): LinkEdge[] {
+        return this.edgesBySource.get(this.normalize(page)) || [];
+    }
+
+    /**
+     * Returns the links pointing to another website.
+     */
+    getExternalLinks(): LinkEdge[] {
+        const edges: LinkEdge[] = [];
+
+        this.edgesBySource.forEach(list => list.forEach(edge => {
+            if (edge.external) edges.push(edge);
+        }));
+
+        return edges;
+    }
+
+    /**
+     * Returns the pages which must be invalidated if these urls change.
+     * Follow the referrers recursively: if an image is used by a CSS,
+     * then the pages using this CSS are returned.
+     *
+     * @param urls
+     *      The urls which have changed.
+     * @param followPageLinks
+     *      The pages linking directly to a changed url are always returned.
+     *      If true, a page linking to an impacted page is also impacted.
+     *      Is useful when the page displays information about the pages it links (ex: a product list).
+     *      Default is false.
+     */
+    getPagesToInvalidate(urls: string|string[], followPageLinks: boolean = false): string[] {
+        if (!Array.isArray(urls)) urls = [urls];
+
+        const startUrls = urls.map(u => this.normalize(u));
+        const toCheck = [...startUrls];
+        const done = new Set<string>();
+        const result: string[] = [];
+
+        while (toCheck.length) {
+            const url = toCheck.pop()!;
+            if (done.has(url)) continue;
+            done.add(url);
+
+            const isPage = this.pages.has(url);
+            if (isPage) result.push(url);
+
+            // A page isn't changed when a page it links to is changed.
+            if (isPage && !followPageLinks && !startUrls.includes(url)) continue;
+
+            for (const edge of this.getReferrers(url)) {
+                if (!done.has(edge.source)) toCheck.push(edge.source);
+            }
+        }
+
+        return result;
+    }
+
+    toJSON(): LinkGraphJson {
+        const edges: LinkEdge[] = [];
+        this.edgesBySource.forEach(list => edges.push(...list));
+        return {pages: Array.from(this.pages), edges};
+    }
+
+    static fromJSON(json: LinkGraphJson, baseUrl?: string): LinkGraph {
+        const graph = new LinkGraph(baseUrl);
+        json.pages.forEach(p => graph.markAsPage(p));
+        json.edges.forEach(e => graph.addEdge(e.source, e.target, e.via, e.external));
+        return graph;
+    }
+
+    private normalize(url: string): string {
+        if (this.baseUrl && (url[0] === "/")) return this.baseUrl + url;
+        return url;
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * The file extension to use for a content-type,
+ * when the url has no extension.
+ */
+export const gDefaultMimeExtensions: Record<string, string> = {
+    "text/html": ".html",
+    "application/xhtml+xml": ".html",
+    "text/css": ".css",
+    "text/javascript": ".js",
+    "application/javascript": ".js",
+    "application/json": ".json",
+    "application/ld+json": ".json",
+    "application/manifest+json": ".json",
+    "application/xml": ".xml",
+    "text/xml": ".xml",
+    "application/rss+xml": ".xml",
+    "application/atom+xml": ".xml",
+    "text/plain": ".txt",
+    "text/csv": ".csv",
+    "application/pdf": ".pdf",
+    "application/zip": ".zip",
+    "image/png": ".png",
+    "image/jpeg": ".jpg",
+    "image/gif": ".gif",
+    "image/webp": ".webp",
+    "image/avif": ".avif",
+    "image/svg+xml": ".svg",
+    "image/x-icon": ".ico",
+    "image/vnd.microsoft.icon": ".ico",
+    "font/woff": ".woff",
+    "font/woff2": ".woff2",
+    "font/ttf": ".ttf",
+    "font/otf": ".otf",
+    "video/mp4": ".mp4",
+    "video/webm": ".webm",
+    "audio/mpeg": ".mp3",
+    "audio/ogg": ".ogg"
+};
+
+/**
+ * Returns the file extension for this content-type (ex: ".xml").
+ * Returns undefined if the content-type is HTML or unknown,
+ * which means the url is stored as ".../index.html".
+ *
+ * @param contentType
+ *      The value of the content-type header (ex: "application/json; charset=utf-8").
+ * @param mimeExtensions
+ *      Allow overriding the default extensions.
+ */
+export function getExtensionForContentType(contentType: string|undefined, mimeExtensions?: Record<string, string>): string|undefined {
+    if (!contentType) return undefined;
+
+    let idx = contentType.indexOf(";");
+    if (idx !== -1) contentType = contentType.substring(0, idx);
+    contentType = contentType.trim().toLowerCase();
+
+    const ext = (mimeExtensions && mimeExtensions[contentType]) || gDefaultMimeExtensions[contentType];
+    if (!ext || (ext === ".html")) return undefined;
+
+    return ext;
+}
+
+/**
+ * Returns true if this content-type is HTML.
+ */
+export function isHtmlContentType(contentType: string): boolean {
+    return contentType.startsWith("text/html") || contentType.startsWith("application/xhtml+xml");
+}
@@ -0,0 +1,77 @@
+import {describe, expect, test} from "bun:test";
+import {addQueryToFileName, encodeQueryString} from "./queryStringNaming.ts";
+
+const isHash = (encoded: string) => /^q-[0-9a-f]{12}$/.test(encoded);
+
+describe("encodeQueryString", () => {
+    test("the simple params are readable", () => {
+        expect(encodeQueryString("?page=2", false)).toBe("page-2");
+        expect(encodeQueryString("page=2", false)).toBe("page-2");
+        expect(encodeQueryString("?b=2&a=1", false)).toBe("a-1_b-2");
+        expect(encodeQueryString("?print", false)).toBe("print");
+    });
+
+    test("nothing is added without query string", () => {
+        expect(encodeQueryString("", false)).toBe("");
+        expect(encodeQueryString("?", false)).toBe("");
+        expect(encodeQueryString("?page=2", false, false)).toBe("");
+    });
+
+    test("the resources are only renamed with appliesTo all", () => {
+        expect(encodeQueryString("?v=2", true)).toBe("");
+        expect(encodeQueryString("?v=2", true, {appliesTo: "all"})).toBe("v-2");
+    });
+
+    test("the ignored params are removed", () => {
+        expect(encodeQueryString("?utm_source=x&page=2", false, {ignoredParams: ["utm_source"]})).toBe("page-2");
+        expect(encodeQueryString("?utm_source=x", false, {ignoredParams: ["utm_source"]})).toBe("");
+    });
+
+    test("the separators inside a name or a value don't create collisions", () => {
+        const a = encodeQueryString("?x=1_y-2", false);
+        const b = encodeQueryString("?x=1&y=2", false);
+
+        expect(b).toBe("x-1_y-2");
+        expect(isHash(a)).toBe(true);
+        expect(a).not.toBe(b);
+
+        const c = encodeQueryString("?a-b=c", false);
+        const d = encodeQueryString("?a=b-c", false);
+
+        expect(isHash(c)).toBe(true);
+        expect(isHash(d)).toBe(true);
+        expect(c).not.toBe(d);
+
+        expect(encodeQueryString("?a_b", false)).not.toBe(encodeQueryString("?a&b", false));
+        expect(encodeQueryString("?=a", false)).not.toBe(encodeQueryString("?a", false));
+    });
+
+    test("a value looking like a hash isn't kept as-is", () => {
+        const hashed = encodeQueryString("?x=1_y-2", false);
+        const value = hashed.substring(2);
+
+        expect(encodeQueryString("?q=" + value, false)).not.toBe(hashed);
+    });
+
+    test("a hash is used for the long or special values", () => {
+        expect(isHash(encodeQueryString("?q=" + "a".repeat(50), false))).toBe(true);
+        expect(isHash(encodeQueryString("?q=caf%C3%A9", false))).toBe(true);
+        expect(isHash(encodeQueryString("?path=a/b", false))).toBe(true);
+    });
+
+    test("the order of the params doesn't change the result", () => {
+        expect(encodeQueryString("?a=1&b=x_y", false)).toBe(encodeQueryString("?b=x_y&a=1", false));
+    });
+
+    test("the encoding can be replaced", () => {
+        expect(encodeQueryString("?page=2", false, {encode: p => "p" + p.get("page")})).toBe("p2");
+    });
+});
+
+describe("addQueryToFileName", () => {
+    test("the query is added before the extension", () => {
+        expect(addQueryToFileName("blog/index.html", "page-2")).toBe("blog/index.page-2.html");
+        expect(addQueryToFileName("my.dir/file", "v-2")).toBe("my.dir/file.v-2");
+        expect(addQueryToFileName("blog/index.html", "")).toBe("blog/index.html");
+    });
+});
@@ -0,0 +1,104 @@
+import {createHash} from "node:crypto";
+
+/**
+ * Allows including the query string inside the name of the files,
+ * which avoids "/blog?page=2" and "/blog?page=3" to be stored in the same file.
+ *
+ * With the default options, "/blog?page=2" is stored as "blog/index.page-2.html".
+ */
+export interface QueryStringNaming {
+    /**
+     * On which urls the query string is used.
+     * - "pages": only urls without an extension, which are stored as ".../index.html".
+     * - "all": also the resources (ex: "style.css?v=2" is stored as "style.v-2.css").
+     * Default is "pages".
+     */
+    appliesTo?: "pages" | "all";
+
+    /**
+     * The params which are ignored (ex: "utm_source").
+     */
+    ignoredParams?: string[];
+
+    /**
+     * If the encoded query string is longer, a hash is used instead.
+     * Default is 40.
+     */
+    maxLength?: number;
+
+    /**
+     * Allow replacing the encoding of the query string.
+     * Must return a value which is valid inside a file name, or an empty string.
+     */
+    encode?: (params: URLSearchParams) => string;
+}
+
+const gDefaultNaming: QueryStringNaming = {appliesTo: "pages", maxLength: 40};
+const gReadableValue = /^[a-zA-Z0-9]+$/;
+const gHashedQuery = /^q-[0-9a-f]{12}$/;
+
+/**
+ * Returns the part to add to the file name for this query string.
+ * Returns an empty string if nothing must be added.
+ *
+ * @param search
+ *      The query string, with or without the "?".
+ * @param hasExtension
+ *      true if the url has a file extension (ex: "style.css").
+ * @param naming
+ *      The naming options. Use false to ignore the query strings.
+ */
+export function encodeQueryString(search: string, hasExtension: boolean, naming?: QueryStringNaming|false): string {
+    if (naming === false) return "";
+    if (!search || (search === "?")) return "";
+
+    naming = {...gDefaultNaming, ...naming};
+    if (hasExtension && (naming.appliesTo !== "all")) return "";
+
+    const params = new URLSearchParams(search);
+
+    if (naming.ignoredParams) {
+        naming.ignoredParams.forEach(p => params.delete(p));
+    }
+
+    // The order of the params doesn't change the page.
+    params.sort();
+
+    if (naming.encode) return naming.encode(params);
+
+    const parts: string[] = [];
+    let isReadable = true;
+
+    params.forEach((value, name) => {
+        // "-" and "_" are the separators, so they can't be inside a name or a value.
+        // Without that, "?x=1_y-2" and "?x=1&y=2" would be stored in the same file.
+        if (!gReadableValue.test(name) || (value && !gReadableValue.test(value))) isReadable = false;
+        parts.push(value ? name + "-" + value : name);
+    });
+
+    if (!parts.length) return "";
+
+    const encoded = parts.join("_");
+
+    // Avoid collisions when some characters can't be used in a file name,
+    // or when the result looks like a hash (ex: "?q=0123456789ab").
+    if (!isReadable || (encoded.length > naming.maxLength!) || gHashedQuery.test(encoded)) {
+        return "q-" + createHash("sha1").update(params.toString()).digest("hex").substring(0, 12);
+    }
+
+    return encoded;
+}
+
+/**
+ * Add the encoded query string to the file name, before its extension.
+ * Ex: "blog/index.html" + "page-2" --> "blog/index.page-2.html".
+ */
+export function addQueryToFileName(filePath: string, encodedQuery: string): string {
+    if (!encodedQuery) return filePath;
+
+    const lastSlash = Math.max(filePath.lastIndexOf("/"), filePath.lastIndexOf("\\"));
+    const lastDot = filePath.lastIndexOf(".");
+
+    if (lastDot <= lastSlash) return filePath + "." + encodedQuery;
+    return filePath.substring(0, lastDot) + "." + encodedQuery + filePath.substring(lastDot);
+}
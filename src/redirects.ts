@@ -0,0 +1,146 @@
+/**
+ * How the redirections found are exported, once the crawling is finished.
+ * - "stubs": an HTML page with a meta-refresh, at the path of the old url.
+ * - "netlify": a "_redirects" file, for Netlify and compatible hosts.
+ * - "nginx": a "redirects.nginx.conf" file, with a "map" for each status code.
+ * - "json": a "redirects.json" file.
+ */
+export type RedirectExportFormat = "stubs" | "netlify" | "nginx" | "json";
+
+export interface RecordedRedirect {
+    from: string;
+    to: string;
+
+    /**
+     * The status code (301, 302, 307, 308, ...).
+     */
+    status: number;
+}
+
+export interface ResolvedRedirect {
+    from: string;
+
+    /**
+     * The status code of the first redirection.
+     */
+    status: number;
+
+    /**
+     * The final target, once all the redirections are followed.
+     */
+    target: string;
+
+    /**
+     * All the redirections followed, in order.
+     */
+    chain: RecordedRedirect[];
+}
+
+/**
+ * Store the redirections found while crawling,
+ * and allow following the chains of redirections.
+ */
+export class RedirectMap {
+    private readonly redirects = new Map<string, RecordedRedirect>();
+
+    get size(): number {
+        return this.redirects.size;
+    }
+
+    add(from: string, to: string, status: number) {
+        this.redirects.set(from, {from, to, status});
+    }
+
+    get(from: string): RecordedRedirect|undefined {
+        return this.redirects.get(from);
+    }
+
+    getAll(): RecordedRedirect[] {
+        return Array.from(this.redirects.values());
+    }
+
+    /**
+     * Follow the chain of redirections starting from this url.
+     * Returns undefined if this url isn't a redirection.
+     * Stops on a loop.
+     */
+    resolve(from: string): ResolvedRedirect|undefined {
+        const first = this.redirects.get(from);
+        if (!first) return undefined;
+
+        const chain: RecordedRedirect[] = [];
+        const seen = new Set<string>([from]);
+        let current: RecordedRedirect|undefined = first;
+
+        while (current) {
+            chain.push(current);
+            if (seen.has(current.to)) break;
+
+            seen.add(current.to);
+            current = this.redirects.get(current.to);
+        }
+
+        return {from, status: first.status, target: chain[chain.length - 1].to, chain};
+    }
+}
+
+/**
+ * Build a Netlify "_redirects" file.
+ * Each line is "from to status".
+ */
+export function buildNetlifyRedirects(redirects: RecordedRedirect[]): string {
+    return redirects.map(r => r.from + " " + r.to + " " + r.status).join("\n") + "\n";
+}
+
+/**
+ * Build an nginx config with a "map" for each status code.
+ * Must be included inside the "http" block.
+ */
+export function buildNginxRedirectMap(redirects: RecordedRedirect[]): string {
+    const byStatus = new Map<number, RecordedRedirect[]>();
+
+    redirects.forEach(r => {
+        let list = byStatus.get(r.status);
+        if (!list) byStatus.set(r.status, list = []);
+        list.push(r);
+    });
+
+    let usage = "# Usage: include this file inside the http block, then add inside the server block:\n";
+    let maps = "";
+
+    for (const [status, list] of byStatus) {
+        usage += "#     if ($redirect_" + status + ") { return " + status + " $redirect_" + status + "; }\n";
+
+        maps += "\nmap $request_uri $redirect_" + status + " {\n";
+        maps += "    default \"\";\n";
+        list.forEach(r => maps += "    " + nginxQuote(r.from) + " " + nginxQuote(r.to) + ";\n");
+        maps += "}\n";
+    }
+
+    return usage + maps;
+}
+
+function nginxQuote(value: string): string {
+    return "\"" + value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"") + "\"";
+}
+
+/**
+ * Build an HTML page redirecting to this target.
+ */
+export function buildRedirectStub(target: string): string {
+    const escaped = target.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Redirecting...</title>
+<link rel="canonical" href="${escaped}">
+<meta http-equiv="refresh" content="0; url=${escaped}">
+</head>
+<body>
+<a href="${escaped}">${escaped}</a>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Is thrown while reading a body bigger than the "maxResponseSize" option.
+ */
+export class ResponseTooLargeError extends Error {
+    constructor(public readonly maxSize: number) {
+        super("The response is bigger than " + maxSize + " bytes");
+        this.name = "ResponseTooLargeError";
+    }
+}
+
+/**
+ * Is thrown when the server takes too much time to respond or to send the body.
+ */
+export class RequestTimeoutError extends Error {
+    constructor(message: string, public readonly timeout_ms: number) {
+        super(message + " (" + timeout_ms + " ms)");
+        this.name = "RequestTimeoutError";
+    }
+}
+
+/**
+ * Returns a body which fails with a ResponseTooLargeError
+ * once more than maxSize bytes have been read.
+ *
+ * @param body
+ *      The body to read.
+ * @param maxSize
+ *      The max size in bytes.
+ * @param onTooLarge
+ *      Is called when the limit is reached. Allow stopping the download.
+ */
+export function limitBodySize(body: ReadableStream<Uint8Array>, maxSize: number, onTooLarge: (e: ResponseTooLargeError) => void): ReadableStream<Uint8Array> {
+    let size = 0;
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+            size += chunk.length;
+
+            if (size > maxSize) {
+                const error = new ResponseTooLargeError(maxSize);
+                onTooLarge(error);
+                controller.error(error);
+                return;
+            }
+
+            controller.enqueue(chunk);
+        }
+    }));
+}
+
+/**
+ * Returns a body which fails with a RequestTimeoutError if the server
+ * doesn't send data during readTimeout_ms.
+ * Only the time waiting for the server is counted, not the time spent by the reader.
+ *
+ * @param body
+ *      The body to read.
+ * @param readTimeout_ms
+ *      The max time to wait for the next chunk.
+ * @param onTimeout
+ *      Is called when the timeout occurs. Allow stopping the download.
+ */
+export function watchBodyReading(body: ReadableStream<Uint8Array>, readTimeout_ms: number, onTimeout: (e: RequestTimeoutError) => void): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+
+    return new ReadableStream<Uint8Array>({
+        pull: async (controller) => {
+            const timer = setTimeout(() => {
+                onTimeout(new RequestTimeoutError("No data received from the server", readTimeout_ms));
+            }, readTimeout_ms);
+
+            try {
+                const {done, value} = await reader.read();
+
+                if (done) controller.close();
+                else controller.enqueue(value);
+            }
+            catch (e) {
+                controller.error(e);
+            }
+            finally {
+                clearTimeout(timer);
+            }
+        },
+
+        cancel: (reason) => reader.cancel(reason)
+    });
+}
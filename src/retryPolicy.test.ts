@@ -0,0 +1,86 @@
+import {describe, expect, test} from "bun:test";
+import {gDefaultRetryPolicy, getRetryDelay_ms, isThrottlingStatus, parseRetryAfter_ms, type RetryPolicy} from "./retryPolicy.ts";
+
+const noJitter: Required<RetryPolicy> = {...gDefaultRetryPolicy, jitter: 0};
+
+describe("parseRetryAfter_ms", () => {
+    test("a number of seconds", () => {
+        expect(parseRetryAfter_ms("120")).toBe(120000);
+        expect(parseRetryAfter_ms(" 0 ")).toBe(0);
+    });
+
+    test("an http date", () => {
+        const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+        expect(parseRetryAfter_ms("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+        expect(parseRetryAfter_ms("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+    });
+
+    test("an invalid value", () => {
+        expect(parseRetryAfter_ms("soon")).toBeUndefined();
+        expect(parseRetryAfter_ms("-5")).toBeUndefined();
+        expect(parseRetryAfter_ms("")).toBeUndefined();
+    });
+});
+
+describe("getRetryDelay_ms", () => {
+    test("the delay is doubled for each retry", () => {
+        expect(getRetryDelay_ms(noJitter, 0, 503)).toBe(1000);
+        expect(getRetryDelay_ms(noJitter, 1, 503)).toBe(2000);
+        expect(getRetryDelay_ms(noJitter, 2, 503)).toBe(4000);
+    });
+
+    test("the delay is limited by maxDelay_ms", () => {
+        const policy = {...noJitter, maxRetries: 20, maxDelay_ms: 5000};
+        expect(getRetryDelay_ms(policy, 10, 500)).toBe(5000);
+    });
+
+    test("no retry after maxRetries", () => {
+        expect(getRetryDelay_ms(noJitter, 3, 503)).toBeUndefined();
+        expect(getRetryDelay_ms({...noJitter, maxRetries: 0}, 0, 503)).toBeUndefined();
+    });
+
+    test("no retry for the permanent errors", () => {
+        expect(getRetryDelay_ms(noJitter, 0, 404)).toBeUndefined();
+        expect(getRetryDelay_ms(noJitter, 0, 401)).toBeUndefined();
+        expect(getRetryDelay_ms({...noJitter, retryStatusCodes: [404]}, 0, 404)).toBe(1000);
+    });
+
+    test("Retry-After is used for 429 and 503", () => {
+        expect(getRetryDelay_ms(noJitter, 0, 429, "7")).toBe(7000);
+        expect(getRetryDelay_ms(noJitter, 0, 503, "7")).toBe(7000);
+
+        // Not a throttling status: the backoff is used.
+        expect(getRetryDelay_ms(noJitter, 0, 500, "7")).toBe(1000);
+
+        // Invalid value: the backoff is used.
+        expect(getRetryDelay_ms(noJitter, 1, 429, "later")).toBe(2000);
+    });
+
+    test("Retry-After can be ignored", () => {
+        expect(getRetryDelay_ms({...noJitter, respectRetryAfter: false}, 0, 429, "7")).toBe(1000);
+    });
+
+    test("no retry if the server asks to wait too long", () => {
+        expect(getRetryDelay_ms(noJitter, 0, 429, "3600")).toBeUndefined();
+        expect(getRetryDelay_ms({...noJitter, maxRetryAfter_ms: 2 * 3600 * 1000}, 0, 429, "3600")).toBe(3600000);
+    });
+
+    test("the jitter stays inside its range", () => {
+        const policy = {...gDefaultRetryPolicy, jitter: 0.3};
+
+        for (let i = 0; i < 100; i++) {
+            const delay = getRetryDelay_ms(policy, 1, 503)!;
+            expect(delay).toBeGreaterThanOrEqual(1400);
+            expect(delay).toBeLessThanOrEqual(2600);
+        }
+    });
+});
+
+describe("isThrottlingStatus", () => {
+    test("429 and 503", () => {
+        expect(isThrottlingStatus(429)).toBe(true);
+        expect(isThrottlingStatus(503)).toBe(true);
+        expect(isThrottlingStatus(500)).toBe(false);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * How the crawler retries an url when the server returns an error.
+ */
+export interface RetryPolicy {
+    /**
+     * The max number of retries for an url.
+     * Default is 3.
+     */
+    maxRetries?: number;
+
+    /**
+     * The pause before the first retry. Is doubled for each retry.
+     * Default is 1 second.
+     */
+    baseDelay_ms?: number;
+
+    /**
+     * The max pause before a retry.
+     * Default is 1 minute.
+     */
+    maxDelay_ms?: number;
+
+    /**
+     * A random part added to the pause, as a ratio of the pause.
+     * Avoid all the retries being done at the same time.
+     * Default is 0.3 (+/- 30%).
+     */
+    jitter?: number;
+
+    /**
+     * The status codes for which a retry is done.
+     * The others errors (ex: 404, 410, 401) are permanent.
+     * Default is [408, 425, 429, 500, 502, 503, 504].
+     */
+    retryStatusCodes?: number[];
+
+    /**
+     * If true, the "Retry-After" header sent with a 429 or 503 is used.
+     * Default is true.
+     */
+    respectRetryAfter?: boolean;
+
+    /**
+     * If the server asks to wait longer, then the url is considered as in error.
+     * Default is 5 minutes.
+     */
+    maxRetryAfter_ms?: number;
+
+    /**
+     * If true, when the server returns 429 or 503,
+     * all the calls to this origin are slowed down.
+     * Default is true.
+     */
+    adaptiveThrottling?: boolean;
+}
+
+export const gDefaultRetryPolicy: Required<RetryPolicy> = {
+    maxRetries: 3,
+    baseDelay_ms: 1000,
+    maxDelay_ms: 60 * 1000,
+    jitter: 0.3,
+    retryStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+    respectRetryAfter: true,
+    maxRetryAfter_ms: 5 * 60 * 1000,
+    adaptiveThrottling: true
+};
+
+/**
+ * Returns true if this status means the server asks us to slow down.
+ */
+export function isThrottlingStatus(status: number): boolean {
+    return (status === 429) || (status === 503);
+}
+
+/**
+ * Returns the pause to do before retrying,
+ * or undefined if the url must not be retried.
+ *
+ * @param policy
+ *      The policy, with all the values set.
+ * @param retryCount
+ *      The number of retries already done.
+ * @param status
+ *      The status code of the response.
+ * @param retryAfter
+ *      The value of the "Retry-After" header, if any.
+ */
+export function getRetryDelay_ms(policy: Required<RetryPolicy>, retryCount: number, status: number, retryAfter?: string|null): number|undefined {
+    if (retryCount >= policy.maxRetries) return undefined;
+    if (!policy.retryStatusCodes.includes(status)) return undefined;
+
+    if (retryAfter && policy.respectRetryAfter && isThrottlingStatus(status)) {
+        const delay = parseRetryAfter_ms(retryAfter);
+
+        if (delay !== undefined) {
+            if (delay > policy.maxRetryAfter_ms) return undefined;
+            return delay;
+        }
+    }
+
+    const delay = Math.min(policy.baseDelay_ms * Math.pow(2, retryCount), policy.maxDelay_ms);
+    const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+
+    return Math.max(0, Math.round(delay + jitter));
+}
+
+/**
+ * Parse the value of a "Retry-After" header,
+ * which is a number of seconds or an http date.
+ * Returns the pause to do, in milliseconds.
+ */
+export function parseRetryAfter_ms(value: string, now: number = Date.now()): number|undefined {
+    value = value.trim();
+
+    if (/^\d+$/.test(value)) {
+        return parseInt(value) * 1000;
+    }
+
+    // An http date always has the names of the day and month.
+    // Without this check, Date.parse accepts values like "-5".
+    if (!/[a-z]/i.test(value)) return undefined;
+
+    const date = Date.parse(value);
+    if (isNaN(date)) return undefined;
+
+    return Math.max(0, date - now);
+}
@@ -0,0 +1,87 @@
+import {describe, expect, test} from "bun:test";
+import {RobotsTxt} from "./robots.ts";
+
+describe("RobotsTxt", () => {
+    test("the longest rule wins", () => {
+        const robots = RobotsTxt.parse([
+            "User-agent: *",
+            "Disallow: /private",
+            "Allow: /private/public"
+        ].join("\n"));
+
+        expect(robots.isAllowed("/", "my-bot")).toBe(true);
+        expect(robots.isAllowed("/private/page", "my-bot")).toBe(false);
+        expect(robots.isAllowed("/private/public/page", "my-bot")).toBe(true);
+    });
+
+    test("allow wins when the rules have the same length", () => {
+        const robots = RobotsTxt.parse("User-agent: *\nDisallow: /page\nAllow: /page");
+        expect(robots.isAllowed("/page", "my-bot")).toBe(true);
+    });
+
+    test("wildcards and end of url", () => {
+        const robots = RobotsTxt.parse("User-agent: *\nDisallow: /*.pdf$\nDisallow: /search*q=");
+
+        expect(robots.isAllowed("/docs/file.pdf", "my-bot")).toBe(false);
+        expect(robots.isAllowed("/docs/file.pdf?v=2", "my-bot")).toBe(true);
+        expect(robots.isAllowed("/search?lang=en&q=test", "my-bot")).toBe(false);
+        expect(robots.isAllowed("/search?lang=en", "my-bot")).toBe(true);
+    });
+
+    test("the special characters of the patterns are escaped", () => {
+        const robots = RobotsTxt.parse("User-agent: *\nDisallow: /a.b?c");
+
+        expect(robots.isAllowed("/a.b?c=1", "my-bot")).toBe(false);
+        expect(robots.isAllowed("/axb?c=1", "my-bot")).toBe(true);
+    });
+
+    test("the most specific user-agent is selected", () => {
+        const robots = RobotsTxt.parse([
+            "User-agent: *",
+            "Disallow: /",
+            "",
+            "User-agent: jopi",
+            "User-agent: other",
+            "Disallow: /admin",
+            "Crawl-delay: 1.5"
+        ].join("\n"));
+
+        expect(robots.isAllowed("/page", "Mozilla/5.0 (compatible; Jopi-Crawler)")).toBe(true);
+        expect(robots.isAllowed("/admin", "jopi-crawler")).toBe(false);
+        expect(robots.isAllowed("/page", "other-bot")).toBe(true);
+        expect(robots.isAllowed("/page", "unknown-bot")).toBe(false);
+
+        expect(robots.getCrawlDelay_ms("jopi-crawler")).toBe(1500);
+        expect(robots.getCrawlDelay_ms("unknown-bot")).toBe(0);
+    });
+
+    test("an empty disallow allows everything", () => {
+        const robots = RobotsTxt.parse("User-agent: *\nDisallow:");
+        expect(robots.isAllowed("/page", "my-bot")).toBe(true);
+    });
+
+    test("the comments are ignored and the sitemaps are collected", () => {
+        const robots = RobotsTxt.parse([
+            "# A comment",
+            "User-agent: * # all the bots",
+            "Disallow: /tmp # not this dir",
+            "Sitemap: https://my-site/sitemap.xml"
+        ].join("\r\n"));
+
+        expect(robots.isAllowed("/tmp/file", "my-bot")).toBe(false);
+        expect(robots.isAllowed("/tmp2", "my-bot")).toBe(false);
+        expect(robots.sitemaps).toEqual(["https://my-site/sitemap.xml"]);
+    });
+
+    test("robots.txt itself is always allowed", () => {
+        const robots = RobotsTxt.parse("User-agent: *\nDisallow: /");
+
+        expect(robots.isAllowed("/robots.txt", "my-bot")).toBe(true);
+        expect(robots.isAllowed("/page", "my-bot")).toBe(false);
+    });
+
+    test("allowAll and disallowAll ignore the rules", () => {
+        expect(RobotsTxt.allowAll().isAllowed("/page", "my-bot")).toBe(true);
+        expect(RobotsTxt.disallowAll().isAllowed("/page", "my-bot")).toBe(false);
+    });
+});
@@ -0,0 +1,198 @@
+interface RobotsRule {
+    isAllow: boolean;
+    pattern: string;
+    regExp: RegExp;
+}
+
+interface RobotsGroup {
+    userAgents: string[];
+    rules: RobotsRule[];
+    crawlDelay?: number;
+}
+
+/**
+ * A parsed robots.txt file.
+ * Follow the rules of RFC 9309, with "Crawl-delay" and "Sitemap" extensions.
+ */
+export class RobotsTxt {
+    private readonly groups: RobotsGroup[] = [];
+
+    /**
+     * The url of the sitemaps declared in this file.
+     */
+    public readonly sitemaps: string[] = [];
+
+    /**
+     * If set, all the urls are allowed or forbidden,
+     * whatever the rules are.
+     */
+    private readonly forceAll?: boolean;
+
+    private constructor(forceAll?: boolean) {
+        this.forceAll = forceAll;
+    }
+
+    /**
+     * Returns an instance allowing all urls.
+     * Is used when the robots.txt doesn't exist.
+     */
+    static allowAll(): RobotsTxt {
+        return new RobotsTxt(true);
+    }
+
+    /**
+     * Returns an instance forbidding all urls.
+     * Is used when the server can't return his robots.txt.
+     */
+    static disallowAll(): RobotsTxt {
+        return new RobotsTxt(false);
+    }
+
+    static parse(content: string): RobotsTxt {
+        const robots = new RobotsTxt();
+        let current: RobotsGroup|undefined;
+        let isReadingAgents = false;
+
+        for (let line of content.split(/\r?\n/)) {
+            let idx = line.indexOf("#");
+            if (idx !== -1) line = line.substring(0, idx);
+
+            idx = line.indexOf(":");
+            if (idx === -1) continue;
+
+            const key = line.substring(0, idx).trim().toLowerCase();
+            const value = line.substring(idx + 1).trim();
+
+            switch (key) {
+                case "user-agent":
+                    // Many user-agent lines can share the same rules.
+                    if (!current || !isReadingAgents) {
+                        current = {userAgents: [], rules: []};
+                        robots.groups.push(current);
+                    }
+
+                    current.userAgents.push(value.toLowerCase());
+                    isReadingAgents = true;
+                    break;
+
+                case "allow":
+                case "disallow":
+                    isReadingAgents = false;
+                    if (!current) break;
+
+                    // "Disallow:" with an empty value means nothing is forbidden.
+                    if (!value) break;
+
+                    current.rules.push({
+                        isAllow: key === "allow",
+                        pattern: value,
+                        regExp: patternToRegExp(value)
+                    });
+
+                    break;
+
+                case "crawl-delay":
+                    isReadingAgents = false;
+                    if (!current) break;
+
+                    const delay = parseFloat(value);
+                    if (!isNaN(delay) && (delay >= 0)) current.crawlDelay = delay;
+                    break;
+
+                case "sitemap":
+                    if (value) robots.sitemaps.push(value);
+                    break;
+            }
+        }
+
+        return robots;
+    }
+
+    /**
+     * Returns true if the url can be crawled by this user-agent.
+     *
+     * @param pathAndQuery
+     *      The path of the url, with his query string (ex: /my/page?p=1).
+     * @param userAgent
+     *      The user-agent of the crawler.
+     */
+    isAllowed(pathAndQuery: string, userAgent: string): boolean {
+        if (this.forceAll !== undefined) return this.forceAll;
+
+        // The robots.txt is always allowed.
+        if (pathAndQuery === "/robots.txt") return true;
+
+        const group = this.selectGroup(userAgent);
+        if (!group) return true;
+
+        // The longest rule wins.
+        // If the same length, then "allow" wins.
+        //
+        let bestRule: RobotsRule|undefined;
+
+        for (const rule of group.rules) {
+            if (!rule.regExp.test(pathAndQuery)) continue;
+
+            if (!bestRule
+                || (rule.pattern.length > bestRule.pattern.length)
+                || ((rule.pattern.length === bestRule.pattern.length) && rule.isAllow)) {
+                bestRule = rule;
+            }
+        }
+
+        return bestRule ? bestRule.isAllow : true;
+    }
+
+    /**
+     * Returns the "Crawl-delay" value, in milliseconds.
+     */
+    getCrawlDelay_ms(userAgent: string): number {
+        const group = this.selectGroup(userAgent);
+        if (!group || !group.crawlDelay) return 0;
+        return group.crawlDelay * 1000;
+    }
+
+    /**
+     * Select the group matching this user-agent.
+     * The most specific user-agent wins, "*" is the fallback.
+     */
+    private selectGroup(userAgent: string): RobotsGroup|undefined {
+        userAgent = userAgent.toLowerCase();
+
+        let bestGroup: RobotsGroup|undefined;
+        let bestLength = 0;
+        let defaultGroup: RobotsGroup|undefined;
+
+        for (const group of this.groups) {
+            for (const agent of group.userAgents) {
+                if (agent === "*") {
+                    if (!defaultGroup) defaultGroup = group;
+                } else if (userAgent.includes(agent) && (agent.length > bestLength)) {
+                    bestGroup = group;
+                    bestLength = agent.length;
+                }
+            }
+        }
+
+        return bestGroup || defaultGroup;
+    }
+}
+
+/**
+ * Convert a robots.txt path pattern to a RegExp.
+ * Support "*" as wildcard and "$" as end of url.
+ */
+function patternToRegExp(pattern: string): RegExp {
+    let mustEnd = false;
+
+    if (pattern.endsWith("$")) {
+        mustEnd = true;
+        pattern = pattern.slice(0, -1);
+    }
+
+    const source = pattern.split("*")
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+
+    return new RegExp("^" + source + (mustEnd ? "$" : ""));
+}
@@ -0,0 +1,103 @@
+import {tick} from "./utils.ts";
+
+/**
+ * A simple counting semaphore.
+ * Waiters are released in the order they called acquire.
+ */
+export class Semaphore {
+    private activeCount = 0;
+    private readonly waiting: (() => void)[] = [];
+
+    constructor(public readonly maxCount: number) {
+        if (maxCount < 1) this.maxCount = 1;
+    }
+
+    async acquire(): Promise<void> {
+        if (this.activeCount < this.maxCount) {
+            this.activeCount++;
+            return;
+        }
+
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    release(): void {
+        // The slot is directly given to the next waiter.
+        const next = this.waiting.shift();
+        if (next) next();
+        else this.activeCount--;
+    }
+}
+
+const MIN_THROTTLE_PAUSE_MS = 500;
+const MAX_THROTTLE_PAUSE_MS = 30 * 1000;
+
+/**
+ * Limit the number of parallel calls to an origin
+ * and keep a minimal delay between two calls.
+ */
+export class OriginLimiter {
+    private readonly semaphore: Semaphore;
+    private nextCallAt = 0;
+
+    /**
+     * A pause added when the server asks us to slow down.
+     */
+    private throttlePause_ms = 0;
+
+    /**
+     * No call is done before this date.
+     */
+    private blockedUntil = 0;
+
+    constructor(public readonly origin: string, maxConcurrency: number, private pauseDuration_ms: number) {
+        this.semaphore = new Semaphore(maxConcurrency);
+    }
+
+    /**
+     * Wait until a call to this origin is allowed.
+     * A call to release must be done once the call is finished.
+     */
+    async acquire(): Promise<void> {
+        await this.semaphore.acquire();
+
+        const pause = this.pauseDuration_ms + this.throttlePause_ms;
+        if (!pause && !this.blockedUntil) return;
+
+        const now = Date.now();
+        const startAt = Math.max(now, this.nextCallAt, this.blockedUntil);
+        this.nextCallAt = startAt + pause;
+
+        if (startAt > now) await tick(startAt - now);
+    }
+
+    release(): void {
+        this.semaphore.release();
+    }
+
+    /**
+     * Is called when the server asks us to slow down (429, 503).
+     * Double the pause between two calls.
+     *
+     * @param retryAfter_ms
+     *      If set, no call is done to this origin during this time.
+     */
+    slowDown(retryAfter_ms?: number): void {
+        this.throttlePause_ms = Math.min(Math.max(this.throttlePause_ms * 2, MIN_THROTTLE_PAUSE_MS), MAX_THROTTLE_PAUSE_MS);
+
+        if (retryAfter_ms) {
+            this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfter_ms);
+        }
+    }
+
+    /**
+     * Is called after a success.
+     * Slowly remove the pause added by slowDown.
+     */
+    speedUp(): void {
+        if (!this.throttlePause_ms) return;
+
+        this.throttlePause_ms = Math.floor(this.throttlePause_ms * 0.9);
+        if (this.throttlePause_ms < MIN_THROTTLE_PAUSE_MS / 10) this.throttlePause_ms = 0;
+    }
+}
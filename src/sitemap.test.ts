@@ -0,0 +1,56 @@
+import {gzipSync} from "node:zlib";
+import {describe, expect, test} from "bun:test";
+import {buildSitemap, decodeSitemapContent, parseSitemap} from "./sitemap.ts";
+
+describe("parseSitemap", () => {
+    test("the pages of a sitemap", () => {
+        const sitemap = parseSitemap(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc> https://my-site/ </loc><lastmod>2024-05-12</lastmod><changefreq>daily</changefreq><priority>0.8</priority></url>
+  <url><loc>https://my-site/a?x=1&amp;y=2</loc></url>
+  <url><priority>0.5</priority></url>
+</urlset>`);
+
+        expect(sitemap.sitemaps).toEqual([]);
+        expect(sitemap.entries).toEqual([
+            {loc: "https://my-site/", lastmod: "2024-05-12", changefreq: "daily", priority: 0.8},
+            {loc: "https://my-site/a?x=1&y=2"}
+        ]);
+    });
+
+    test("the sitemaps of a sitemap index", () => {
+        const sitemap = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://my-site/sitemap-1.xml</loc></sitemap>
+  <sitemap><loc>https://my-site/sitemap-2.xml.gz</loc></sitemap>
+</sitemapindex>`);
+
+        expect(sitemap.sitemaps).toEqual(["https://my-site/sitemap-1.xml", "https://my-site/sitemap-2.xml.gz"]);
+        expect(sitemap.entries).toEqual([]);
+    });
+
+    test("an invalid sitemap gives nothing", () => {
+        expect(parseSitemap("not a sitemap")).toEqual({entries: [], sitemaps: []});
+    });
+});
+
+describe("decodeSitemapContent", () => {
+    test("the gzipped sitemaps are decompressed", () => {
+        const xml = "<urlset><url><loc>https://my-site/é</loc></url></urlset>";
+
+        expect(decodeSitemapContent(new Uint8Array(gzipSync(xml)))).toBe(xml);
+        expect(decodeSitemapContent(new TextEncoder().encode(xml))).toBe(xml);
+    });
+});
+
+describe("buildSitemap", () => {
+    test("the values are escaped", () => {
+        const xml = buildSitemap([{loc: "https://my-site/a?x=1&y=<2>"}, {loc: "https://my-site/", priority: 1, lastmod: "2024-05-12"}]);
+
+        expect(xml).toContain("<loc>https://my-site/a?x=1&amp;y=&lt;2&gt;</loc>");
+        expect(xml).toContain("<priority>1.0</priority>");
+        expect(parseSitemap(xml).entries).toEqual([
+            {loc: "https://my-site/a?x=1&y=<2>"},
+            {loc: "https://my-site/", lastmod: "2024-05-12", priority: 1}
+        ]);
+    });
+});
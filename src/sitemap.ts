@@ -0,0 +1,108 @@
+import * as cheerio from 'cheerio';
+import {gunzipSync} from "node:zlib";
+
+export interface SitemapEntry {
+    /**
+     * The url of the page.
+     */
+    loc: string;
+
+    /**
+     * The date of the last modification, as found in the sitemap.
+     */
+    lastmod?: string;
+
+    /**
+     * The priority of the page, from 0.0 to 1.0.
+     */
+    priority?: number;
+
+    changefreq?: string;
+}
+
+export interface ParsedSitemap {
+    /**
+     * The pages listed by a sitemap.
+     */
+    entries: SitemapEntry[];
+
+    /**
+     * The sitemaps listed by a sitemap index.
+     */
+    sitemaps: string[];
+}
+
+/**
+ * Decode the content of a sitemap, which can be gzipped.
+ */
+export function decodeSitemapContent(content: Uint8Array): string {
+    // Is it the gzip magic number?
+    if ((content.length > 2) && (content[0] === 0x1f) && (content[1] === 0x8b)) {
+        content = gunzipSync(content);
+    }
+
+    return new TextDecoder().decode(content);
+}
+
+/**
+ * Parse a sitemap or a sitemap index.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+    const $ = cheerio.load(xml, {xml: true});
+    const res: ParsedSitemap = {entries: [], sitemaps: []};
+
+    $("sitemapindex > sitemap > loc").each((_i, node) => {
+        const loc = $(node).text().trim();
+        if (loc) res.sitemaps.push(loc);
+    });
+
+    $("urlset > url").each((_i, node) => {
+        const $node = $(node);
+        const loc = $node.children("loc").text().trim();
+        if (!loc) return;
+
+        const entry: SitemapEntry = {loc};
+
+        const lastmod = $node.children("lastmod").text().trim();
+        if (lastmod) entry.lastmod = lastmod;
+
+        const changefreq = $node.children("changefreq").text().trim();
+        if (changefreq) entry.changefreq = changefreq;
+
+        const priority = parseFloat($node.children("priority").text());
+        if (!isNaN(priority)) entry.priority = priority;
+
+        res.entries.push(entry);
+    });
+
+    return res;
+}
+
+/**
+ * Build the XML of a sitemap.
+ */
+export function buildSitemap(entries: SitemapEntry[]): string {
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+
+    for (const entry of entries) {
+        xml += "  <url>\n";
+        xml += "    <loc>" + escapeXml(entry.loc) + "</loc>\n";
+        if (entry.lastmod) xml += "    <lastmod>" + escapeXml(entry.lastmod) + "</lastmod>\n";
+        if (entry.changefreq) xml += "    <changefreq>" + escapeXml(entry.changefreq) + "</changefreq>\n";
+        if (entry.priority !== undefined) xml += "    <priority>" + entry.priority.toFixed(1) + "</priority>\n";
+        xml += "  </url>\n";
+    }
+
+    xml += "</urlset>\n";
+    return xml;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,136 @@
+/**
+ * Rules allowing to detect the urls which are the same page.
+ * Without it, "/page?utm_source=a" and "/page?utm_source=b" are crawled twice.
+ *
+ * The host is always converted to lower case, the default ports (:80, :443) are removed,
+ * and an empty path becomes "/".
+ */
+export interface UrlCanonicalizationRules {
+    /**
+     * The query string parameters to remove.
+     * A string is the exact name, a RegExp allows matching several names.
+     * See gTrackingParams for the common tracking parameters.
+     */
+    dropParams?: (string|RegExp)[];
+
+    /**
+     * If true, the query string parameters are sorted by name.
+     * Then "?b=2&a=1" and "?a=1&b=2" are the same url.
+     * Default is false.
+     */
+    sortParams?: boolean;
+
+    /**
+     * If true, "/dir/index.html" and "/dir/index.htm" become "/dir/".
+     * Default is false.
+     */
+    removeIndexFile?: boolean;
+
+    /**
+     * If true, a page with a <link rel="canonical"> pointing to another url of the website
+     * is considered as an alias of this url: the links to this page are replaced by the canonical url.
+     * Default is false.
+     */
+    useCanonicalLink?: boolean;
+}
+
+/**
+ * The query string parameters added by the analytics and ads tools.
+ */
+export const gTrackingParams: (string|RegExp)[] = [/^utm_/, "fbclid", "gclid", "dclid", "msclkid", "mc_cid", "mc_eid", "_ga"];
+
+const gDefaultPorts: Record<string, string> = {"http": "80", "https": "443"};
+const gIndexFiles = ["index.html", "index.htm"];
+
+/**
+ * Returns the canonical form of an absolute url.
+ * Is done on the text of the url, which avoids changing how the path is encoded.
+ */
+export function canonicalizeUrl(url: string, rules?: UrlCanonicalizationRules): string {
+    const match = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/([^/?#]*)(.*)$/.exec(url);
+    if (!match) return url;
+
+    const scheme = match[1].toLowerCase();
+    let host = match[2];
+    let rest = match[3];
+
+    // The user infos are case-sensitive, not the host name.
+    const idx = host.lastIndexOf("@");
+    host = host.substring(0, idx + 1) + host.substring(idx + 1).toLowerCase();
+
+    const defaultPort = gDefaultPorts[scheme];
+    if (defaultPort && host.endsWith(":" + defaultPort)) host = host.slice(0, -defaultPort.length - 1);
+
+    // "https://my-site" and "https://my-site/" are the same page.
+    if (!rest || (rest[0] !== "/")) rest = "/" + rest;
+
+    if (rules) rest = canonicalizePath(rest, rules);
+
+    return scheme + "://" + host + rest;
+}
+
+/**
+ * @param rest
+ *      The part of the url after the host: path, query string and hash.
+ */
+function canonicalizePath(rest: string, rules: UrlCanonicalizationRules): string {
+    let hash = "";
+    let idx = rest.indexOf("#");
+
+    if (idx !== -1) {
+        hash = rest.substring(idx);
+        rest = rest.substring(0, idx);
+    }
+
+    let query = "";
+    idx = rest.indexOf("?");
+
+    if (idx !== -1) {
+        query = rest.substring(idx + 1);
+        rest = rest.substring(0, idx);
+    }
+
+    if (rules.removeIndexFile) {
+        const fileName = rest.substring(rest.lastIndexOf("/") + 1);
+        if (gIndexFiles.includes(fileName.toLowerCase())) rest = rest.slice(0, -fileName.length);
+    }
+
+    if (!rest) rest = "/";
+
+    if (query && (rules.dropParams || rules.sortParams)) {
+        let params = query.split("&").filter(p => p.length);
+
+        if (rules.dropParams) {
+            const dropParams = rules.dropParams;
+            params = params.filter(p => !isParamMatching(getParamName(p), dropParams));
+        }
+
+        if (rules.sortParams) {
+            // The sort is stable: the values of a repeated parameter keep their order.
+            params.sort((a, b) => {
+                const nameA = getParamName(a), nameB = getParamName(b);
+                return nameA < nameB ? -1 : (nameA > nameB ? 1 : 0);
+            });
+        }
+
+        query = params.join("&");
+    }
+
+    return rest + (query ? "?" + query : "") + hash;
+}
+
+function getParamName(param: string): string {
+    const idx = param.indexOf("=");
+    const name = idx === -1 ? param : param.substring(0, idx);
+
+    try {
+        return decodeURIComponent(name.replace(/\+/g, " "));
+    }
+    catch {
+        return name;
+    }
+}
+
+function isParamMatching(name: string, dropParams: (string|RegExp)[]): boolean {
+    return dropParams.some(p => (typeof p === "string") ? (p === name) : p.test(name));
+}
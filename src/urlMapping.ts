@@ -1,4 +1,6 @@
 import {addRoute, createRouter, findRoute} from "rou3";
+import type {RetryPolicy} from "./retryPolicy.ts";
+import type {CrawlerAuth} from "./authentication.ts";
 
 export interface UrlResolver {
     resolveURL(url: string): UrlMappingResult|undefined;
@@ -7,6 +9,52 @@ export interface UrlResolver {
 export interface UrlMappingResult {
     url: string;
     wakeUpServer?: ()=>Promise<void>;
+
+    /**
+     * The options of the target which has been selected.
+     */
+    targetOptions?: UrlMappingTargetOptions;
+}
+
+/**
+ * Options which only apply to the server of a mapping target.
+ */
+export interface UrlMappingTargetOptions {
+    /**
+     * The max number of parallel calls to this origin.
+     * Default is the crawler "concurrency" option.
+     */
+    concurrency?: number;
+
+    /**
+     * The pause to do between two calls to this origin.
+     * Default is the crawler "pauseDuration_ms" option.
+     */
+    pauseDuration_ms?: number;
+
+    /**
+     * How to retry the urls of this server.
+     * Is merged with the crawler "retryPolicy" option.
+     */
+    retryPolicy?: RetryPolicy;
+
+    /**
+     * Headers sent with each request to this server.
+     * Are added to the crawler "headers" option.
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The credentials for this server.
+     * Replace the crawler "auth" option.
+     */
+    auth?: CrawlerAuth;
+}
+
+interface RouteData {
+    url: string;
+    wakeUpServer?: ()=>Promise<void>;
+    targetOptions?: UrlMappingTargetOptions;
 }
 
 /**
@@ -14,12 +62,19 @@ export interface UrlMappingResult {
  * This allows mixing more than one website.
  */
 export class UrlMapping implements UrlResolver {
-    private readonly router = createRouter<UrlMappingResult>();
+    private readonly router = createRouter<RouteData>();
     private readonly defaultTarget: string;
+    private readonly defaultTargetOptions?: UrlMappingTargetOptions;
     private readonly allOrigins: string[] = [];
+    private readonly optionsByOrigin: Record<string, UrlMappingTargetOptions> = {};
 
-    constructor(defaultTarget: string) {
+    constructor(defaultTarget: string, defaultTargetOptions?: UrlMappingTargetOptions) {
         this.defaultTarget = this.cleanUpRoute(defaultTarget);
+        this.defaultTargetOptions = defaultTargetOptions;
+
+        if (defaultTargetOptions) {
+            this.optionsByOrigin[new URL(this.defaultTarget).origin] = defaultTargetOptions;
+        }
     }
 
     private cleanUpRoute(route: string): string {
@@ -33,7 +88,14 @@ export class UrlMapping implements UrlResolver {
         return this.allOrigins;
     }
 
-    public mapURL(route: string, mapTo: string, wakeUpServer?: ()=>Promise<void>): UrlMapping {
+    /**
+     * Returns the options which have been set for this origin.
+     */
+    public getOriginOptions(origin: string): UrlMappingTargetOptions|undefined {
+        return this.optionsByOrigin[origin];
+    }
+
+    public mapURL(route: string, mapTo: string, wakeUpServer?: ()=>Promise<void>, targetOptions?: UrlMappingTargetOptions): UrlMapping {
         // Avoid errors.
         mapTo = this.cleanUpRoute(mapTo);
         route = this.cleanUpRoute(route) + "/**";
@@ -41,9 +103,14 @@ export class UrlMapping implements UrlResolver {
         let mapToOrigin = new URL(mapTo).origin;
         if (!this.allOrigins.includes(mapToOrigin)) this.allOrigins.push(mapToOrigin);
 
+        if (targetOptions) {
+            this.optionsByOrigin[mapToOrigin] = {...this.optionsByOrigin[mapToOrigin], ...targetOptions};
+        }
+
         addRoute(this.router, "GET", route, {
             url: mapTo,
-            wakeUpServer: wakeUpServer
+            wakeUpServer: wakeUpServer,
+            targetOptions: targetOptions
         });
 
         return this;
@@ -54,14 +121,17 @@ export class UrlMapping implements UrlResolver {
         let target: string;
 
         let wakeUpServer: (()=>Promise<void>)|undefined;
+        let targetOptions: UrlMappingTargetOptions|undefined;
 
         if (!matched) {
             target = this.defaultTarget;
+            targetOptions = this.defaultTargetOptions;
         } else {
             target = matched.data.url;
             wakeUpServer = matched.data.wakeUpServer;
+            targetOptions = matched.data.targetOptions;
         }
 
-        return {url: target + url, wakeUpServer};
+        return {url: target + url, wakeUpServer, targetOptions};
     }
-}
\ No newline at end of file
+}
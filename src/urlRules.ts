@@ -0,0 +1,155 @@
+import {addRoute, createRouter, findRoute, type RouterContext} from "rou3";
+
+/**
+ * A rule allowing to include or exclude urls from the crawling.
+ * A rule can have a glob, a regExp and query conditions:
+ * all of them must match for the rule to apply.
+ */
+export interface UrlRule {
+    /**
+     * What to do with the urls matching this rule.
+     */
+    action: "include" | "exclude";
+
+    /**
+     * A glob, with the same syntax as the UrlMapping routes.
+     * Ex: "/blog/**", "/product/*", "/user/:id/profile".
+     */
+    glob?: string;
+
+    /**
+     * A regular expression tested on the local url, with his query string.
+     * Ex: /\.pdf$/ or "^/wp-json/".
+     */
+    regExp?: RegExp | string;
+
+    /**
+     * Conditions on the query string parameters.
+     * - true: the parameter must exist.
+     * - false: the parameter must not exist.
+     * - string / RegExp: the parameter value must match.
+     */
+    query?: Record<string, boolean | string | RegExp>;
+
+    /**
+     * On which urls this rule applies.
+     * Default is "all".
+     */
+    appliesTo?: "all" | "page" | "resource";
+
+    /**
+     * A name allowing to know which rule has excluded an url.
+     */
+    name?: string;
+}
+
+export interface UrlRuleCheckResult {
+    isAllowed: boolean;
+
+    /**
+     * A description of the rule which has decided.
+     * Is undefined if no rule matched.
+     */
+    decidedBy?: string;
+}
+
+interface CompiledRule {
+    rule: UrlRule;
+    description: string;
+    router?: RouterContext<boolean>;
+    regExp?: RegExp;
+}
+
+/**
+ * Evaluate a list of include/exclude rules.
+ *
+ * The first matching rule decides.
+ * If no rule matches, the url is allowed, except if there is an "include" rule
+ * for this kind of url: in this case only the included urls are allowed.
+ */
+export class UrlRules {
+    private readonly rules: CompiledRule[];
+
+    constructor(rules: UrlRule[]) {
+        this.rules = rules.map(rule => {
+            const compiled: CompiledRule = {rule, description: describeUrlRule(rule)};
+
+            if (rule.glob) {
+                compiled.router = createRouter<boolean>();
+                addRoute(compiled.router, "GET", rule.glob, true);
+            }
+
+            if (rule.regExp) {
+                compiled.regExp = (typeof rule.regExp === "string") ? new RegExp(rule.regExp) : rule.regExp;
+            }
+
+            return compiled;
+        });
+    }
+
+    /**
+     * Check if this url is allowed.
+     *
+     * @param localUrl
+     *      The local url, with his query string (ex: /my/page?p=2).
+     * @param isResource
+     *      true is the url is pointing to a resource (.css,.png,...)
+     */
+    check(localUrl: string, isResource: boolean): UrlRuleCheckResult {
+        const kind = isResource ? "resource" : "page";
+
+        let idx = localUrl.indexOf("?");
+        const pathname = idx === -1 ? localUrl : localUrl.substring(0, idx);
+        const searchParams = new URLSearchParams(idx === -1 ? "" : localUrl.substring(idx + 1));
+
+        let hasIncludeRule = false;
+
+        for (const compiled of this.rules) {
+            const rule = compiled.rule;
+            if (rule.appliesTo && (rule.appliesTo !== "all") && (rule.appliesTo !== kind)) continue;
+            if (rule.action === "include") hasIncludeRule = true;
+
+            if (compiled.router && !findRoute(compiled.router, "GET", pathname || "/")) continue;
+            if (compiled.regExp && !compiled.regExp.test(localUrl)) continue;
+            if (rule.query && !matchQuery(rule.query, searchParams)) continue;
+
+            return {isAllowed: rule.action === "include", decidedBy: compiled.description};
+        }
+
+        if (hasIncludeRule) return {isAllowed: false, decidedBy: "no include rule matched"};
+        return {isAllowed: true};
+    }
+}
+
+function matchQuery(conditions: Record<string, boolean | string | RegExp>, searchParams: URLSearchParams): boolean {
+    for (const name in conditions) {
+        const condition = conditions[name];
+        const value = searchParams.get(name);
+
+        if (condition === true) {
+            if (value === null) return false;
+        } else if (condition === false) {
+            if (value !== null) return false;
+        } else if (value === null) {
+            return false;
+        } else if (typeof condition === "string") {
+            if (value !== condition) return false;
+        } else if (!condition.test(value)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+export function describeUrlRule(rule: UrlRule): string {
+    if (rule.name) return rule.name;
+
+    const parts: string[] = [];
+    if (rule.glob) parts.push("glob " + rule.glob);
+    if (rule.regExp) parts.push("regExp " + rule.regExp.toString());
+    if (rule.query) parts.push("query " + Object.keys(rule.query).join(","));
+    if (rule.appliesTo) parts.push("on " + rule.appliesTo);
+
+    return rule.action + " " + parts.join(" ");
+}
@@ -1,6 +1,12 @@
-export function applyDefaults<T>(source: T|undefined, defaults: T): T {
-    if (!source) source = {} as T;
-    return {...defaults, ...source};
+export function applyDefaults<T extends object>(source: T|undefined, defaults: T): T {
+    const res = {...source} as T;
+
+    // An option set to undefined (ex: from a config file) keeps its default value.
+    for (const key in defaults) {
+        res[key] = res[key] ?? defaults[key];
+    }
+
+    return res;
 }
 
 export function tick(timeInMs: number): Promise<void> {
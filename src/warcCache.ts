@@ -0,0 +1,451 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {STATUS_CODES} from "node:http";
+import {createHash, randomUUID} from "node:crypto";
+import {gzipSync} from "node:zlib";
+import type {CrawlerCache, CrawlerHttpExchange} from "./common.ts";
+
+export interface WarcCacheOptions {
+    /**
+     * The start of the WARC file names.
+     * Default is "crawl", which gives "crawl-20250101120000-00000.warc.gz".
+     */
+    filePrefix?: string;
+
+    /**
+     * When a WARC file is bigger, a new file is started.
+     * Default is 1 GB.
+     */
+    maxFileSize?: number;
+
+    /**
+     * If true, a response with the same body as a response already stored
+     * is stored as a "revisit" record, without his body.
+     * Default is true.
+     */
+    deduplicate?: boolean;
+
+    /**
+     * Fields added to the "warcinfo" record, at the start of each file.
+     * Ex: {operator: "My Company", description: "Crawl of my website"}.
+     */
+    warcInfo?: Record<string, string>;
+}
+
+/**
+ * An entry of the CDX index.
+ * Allow finding a record inside the WARC files.
+ */
+export interface WarcCdxEntry {
+    urlKey: string;
+    timestamp: string;
+    originalUrl: string;
+    mimeType: string;
+    status: string;
+    digest: string;
+    redirect: string;
+    length: number;
+    offset: number;
+    fileName: string;
+}
+
+const CDX_HEADER = " CDX N b a m s k r M S V g";
+const PROFILE_IDENTICAL_PAYLOAD = "http://netpreserve.org/warc/1.1/revisit/identical-payload-digest";
+const PROFILE_NOT_MODIFIED = "http://netpreserve.org/warc/1.1/revisit/server-not-modified";
+
+/**
+ * A cache storing the exact http exchanges inside WARC files (ISO 28500, WARC/1.1).
+ *
+ * - Each request and each response is stored, including the redirections and the errors.
+ * - Each record is a gzip member, which allows reading a record without reading the whole file.
+ * - A CDX index ("index.cdx") is written next to the WARC files.
+ *
+ * The bodies are stored decoded: the "Content-Encoding" header is removed
+ * and the "Content-Length" header is updated.
+ */
+export class WarcCache implements CrawlerCache {
+    public readonly rootDir: string;
+    public readonly cdxPath: string;
+
+    private readonly options: WarcCacheOptions;
+
+    /**
+     * The last response stored for each url fetched.
+     */
+    private readonly entries = new Map<string, WarcCdxEntry>();
+
+    /**
+     * Allow knowing which url has been fetched for an url of the crawled website.
+     * They are different when using an UrlMapping.
+     */
+    private readonly targetUrls = new Map<string, string>();
+
+    /**
+     * The first response stored for each payload digest.
+     * Allow writing revisit records.
+     */
+    private readonly digests = new Map<string, {url: string, date: string}>();
+
+    private loading?: Promise<void>;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    private fileHandle?: fs.FileHandle;
+    private fileName = "";
+    private fileSize = 0;
+    private fileCount = 0;
+    private warcInfoId = "";
+
+    /**
+     * @param rootDir
+     *      Where to store the WARC files and the CDX index.
+     * @param options
+     *      Options about the WARC files.
+     */
+    constructor(rootDir: string, options?: WarcCacheOptions) {
+        if (!rootDir) rootDir = ".";
+        if (!path.isAbsolute(rootDir)) rootDir = path.resolve(process.cwd(), rootDir);
+        this.rootDir = rootDir;
+        this.cdxPath = path.join(rootDir, "index.cdx");
+
+        this.options = {filePrefix: "crawl", maxFileSize: 1024 * 1024 * 1024, deduplicate: true, ...options};
+    }
+
+    /**
+     * Returns "fileName#offset" for an url already stored,
+     * or the url himself if not stored.
+     */
+    getKey(url: string): string {
+        const entry = this.entries.get(this.targetUrls.get(url) || url);
+        if (!entry) return url;
+        return entry.fileName + "#" + entry.offset;
+    }
+
+    /**
+     * Returns the CDX entry of the last response stored for this url.
+     */
+    async getCdxEntry(url: string): Promise<WarcCdxEntry|undefined> {
+        await this.load();
+        return this.entries.get(this.targetUrls.get(url) || url);
+    }
+
+    async hasInCache(url: string): Promise<boolean> {
+        const entry = await this.getCdxEntry(url);
+        if (!entry) return false;
+
+        // The errors must be fetched again.
+        return parseInt(entry.status) < 400;
+    }
+
+    async addToCache(): Promise<void> {
+        // Nothing to do: the records are written by addHttpExchange,
+        // since the response given here has already been modified.
+    }
+
+    async addHttpExchange(exchange: CrawlerHttpExchange): Promise<void> {
+        await this.load();
+        this.targetUrls.set(exchange.url, exchange.targetUrl);
+
+        // Writing one exchange at once keeps the request and the response together.
+        const promise = this.writeQueue.then(() => this.writeExchange(exchange));
+        this.writeQueue = promise.catch(() => {});
+
+        try {
+            await promise;
+        }
+        catch (e) {
+            console.error(e);
+        }
+    }
+
+    /**
+     * Close the current WARC file and sort the CDX index.
+     */
+    async close(): Promise<void> {
+        await this.writeQueue;
+
+        if (this.fileHandle) {
+            await this.fileHandle.close();
+            this.fileHandle = undefined;
+        }
+
+        if (this.entries.size) {
+            const lines = (await readCdxLines(this.cdxPath)).sort();
+            await fs.writeFile(this.cdxPath, CDX_HEADER + "\n" + lines.join("\n") + "\n", "utf-8");
+        }
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) this.loading = this.doLoad();
+        return this.loading;
+    }
+
+    private async doLoad() {
+        await fs.mkdir(this.rootDir, {recursive: true});
+
+        for (const line of await readCdxLines(this.cdxPath)) {
+            const entry = parseCdxLine(line);
+            if (!entry) continue;
+
+            // A "not modified" revisit doesn't replace the response stored.
+            if ((entry.status !== "304") || !this.entries.has(entry.originalUrl)) {
+                this.entries.set(entry.originalUrl, entry);
+            }
+
+            if ((entry.mimeType !== "warc/revisit") && (entry.digest !== "-") && !this.digests.has(entry.digest)) {
+                this.digests.set(entry.digest, {url: entry.originalUrl, date: cdxTimestampToWarcDate(entry.timestamp)});
+            }
+        }
+
+        const files = await fs.readdir(this.rootDir);
+        this.fileCount = files.filter(f => f.endsWith(".warc.gz")).length;
+    }
+
+    private async writeExchange(exchange: CrawlerHttpExchange) {
+        const warcDate = toWarcDate(exchange.date);
+        const payloadDigest = sha1Base32(exchange.body);
+        const previous = this.entries.get(exchange.targetUrl);
+
+        const responseId = newRecordId();
+        const responseHeaders: Record<string, string> = {};
+        let warcType = "response";
+        let httpBlock: Buffer = Buffer.concat([buildResponseHead(exchange), exchange.body]);
+
+        if (exchange.status === 304) {
+            warcType = "revisit";
+            responseHeaders["WARC-Profile"] = PROFILE_NOT_MODIFIED;
+
+            if (previous) {
+                responseHeaders["WARC-Refers-To-Target-URI"] = previous.originalUrl;
+                responseHeaders["WARC-Refers-To-Date"] = cdxTimestampToWarcDate(previous.timestamp);
+            }
+        } else {
+            const original = this.digests.get(payloadDigest);
+
+            if (this.options.deduplicate && exchange.body.length && original) {
+                warcType = "revisit";
+                httpBlock = buildResponseHead(exchange);
+                responseHeaders["WARC-Profile"] = PROFILE_IDENTICAL_PAYLOAD;
+                responseHeaders["WARC-Refers-To-Target-URI"] = original.url;
+                responseHeaders["WARC-Refers-To-Date"] = original.date;
+            }
+
+            responseHeaders["WARC-Payload-Digest"] = "sha1:" + payloadDigest;
+        }
+
+        if (this.fileHandle && (this.fileSize >= this.options.maxFileSize!)) {
+            await this.fileHandle.close();
+            this.fileHandle = undefined;
+        }
+
+        if (!this.fileHandle) await this.openNewFile(exchange.date);
+
+        const responseRecord = await this.writeRecord(warcType, exchange.targetUrl, warcDate, responseId,
+            "application/http;msgtype=response", httpBlock, responseHeaders);
+
+        await this.writeRecord("request", exchange.targetUrl, warcDate, newRecordId(),
+            "application/http;msgtype=request", buildRequestBlock(exchange), {"WARC-Concurrent-To": responseId});
+
+        if ((warcType === "response") && exchange.body.length && !this.digests.has(payloadDigest)) {
+            this.digests.set(payloadDigest, {url: exchange.targetUrl, date: warcDate});
+        }
+
+        let redirect = "-";
+        const location = exchange.headers.get("location");
+
+        if (location && (exchange.status >= 300) && (exchange.status < 400)) {
+            try { redirect = new URL(location, exchange.targetUrl).href; } catch {}
+        }
+
+        const entry: WarcCdxEntry = {
+            urlKey: toSurt(exchange.targetUrl),
+            timestamp: warcDate.replace(/[^0-9]/g, ""),
+            originalUrl: exchange.targetUrl,
+            mimeType: warcType === "revisit" ? "warc/revisit" : getMimeType(exchange.headers.get("content-type")),
+            status: String(exchange.status),
+            digest: exchange.status === 304 ? (previous ? previous.digest : "-") : payloadDigest,
+            redirect,
+            length: responseRecord.length,
+            offset: responseRecord.offset,
+            fileName: this.fileName
+        };
+
+        if ((exchange.status !== 304) || !previous) this.entries.set(exchange.targetUrl, entry);
+        await fs.appendFile(this.cdxPath, formatCdxLine(entry) + "\n", "utf-8");
+    }
+
+    private async openNewFile(date: number) {
+        const serial = String(this.fileCount++).padStart(5, "0");
+        this.fileName = this.options.filePrefix + "-" + toWarcDate(date).replace(/[^0-9]/g, "") + "-" + serial + ".warc.gz";
+        this.fileHandle = await fs.open(path.join(this.rootDir, this.fileName), "a");
+        this.fileSize = 0;
+
+        const fields: Record<string, string> = {
+            "software": "jopi-crawler",
+            "format": "WARC File Format 1.1",
+            "conformsTo": "http://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/",
+            ...this.options.warcInfo
+        };
+
+        let body = "";
+        for (const key in fields) body += key + ": " + fields[key] + "\r\n";
+
+        this.warcInfoId = newRecordId();
+
+        await this.writeRecord("warcinfo", undefined, toWarcDate(date), this.warcInfoId,
+            "application/warc-fields", Buffer.from(body, "utf-8"), {"WARC-Filename": this.fileName});
+    }
+
+    /**
+     * Write a record, as a gzip member.
+     * Returns where the compressed record is inside the file.
+     */
+    private async writeRecord(type: string, targetUri: string|undefined, date: string, recordId: string,
+                              contentType: string, block: Buffer, extraHeaders: Record<string, string>): Promise<{offset: number, length: number}> {
+        const headers: Record<string, string> = {
+            "WARC-Type": type,
+            "WARC-Record-ID": recordId,
+            "WARC-Date": date
+        };
+
+        if (targetUri) headers["WARC-Target-URI"] = targetUri;
+        if (type !== "warcinfo") headers["WARC-Warcinfo-ID"] = this.warcInfoId;
+
+        Object.assign(headers, extraHeaders);
+        headers["WARC-Block-Digest"] = "sha1:" + sha1Base32(block);
+        headers["Content-Type"] = contentType;
+        headers["Content-Length"] = String(block.length);
+
+        let head = "WARC/1.1\r\n";
+        for (const key in headers) head += key + ": " + headers[key] + "\r\n";
+        head += "\r\n";
+
+        const record = Buffer.concat([Buffer.from(head, "utf-8"), block, Buffer.from("\r\n\r\n")]);
+        const compressed = gzipSync(record);
+
+        const offset = this.fileSize;
+        await this.fileHandle!.write(compressed);
+        this.fileSize += compressed.length;
+
+        return {offset, length: compressed.length};
+    }
+}
+
+function buildResponseHead(exchange: CrawlerHttpExchange): Buffer {
+    let head = "HTTP/1.1 " + exchange.status + " " + (STATUS_CODES[exchange.status] || "") + "\r\n";
+
+    exchange.headers.forEach((value, name) => {
+        // The body is already decoded.
+        if ((name === "content-encoding") || (name === "transfer-encoding") || (name === "content-length")) return;
+        head += name + ": " + value + "\r\n";
+    });
+
+    if (exchange.status !== 304) head += "content-length: " + exchange.body.length + "\r\n";
+
+    return Buffer.from(head + "\r\n", "utf-8");
+}
+
+function buildRequestBlock(exchange: CrawlerHttpExchange): Buffer {
+    const url = new URL(exchange.targetUrl);
+    let head = exchange.method + " " + url.pathname + url.search + " HTTP/1.1\r\n";
+    head += "host: " + url.host + "\r\n";
+
+    for (const name in exchange.requestHeaders) {
+        const value = exchange.requestHeaders[name];
+        if (value) head += name.toLowerCase() + ": " + value + "\r\n";
+    }
+
+    return Buffer.from(head + "\r\n", "utf-8");
+}
+
+function newRecordId(): string {
+    return "<urn:uuid:" + randomUUID() + ">";
+}
+
+/**
+ * Returns a date as "2025-01-01T12:00:00Z".
+ */
+function toWarcDate(date: number): string {
+    return new Date(date).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function cdxTimestampToWarcDate(timestamp: string): string {
+    const t = timestamp.padEnd(14, "0");
+    return t.substring(0, 4) + "-" + t.substring(4, 6) + "-" + t.substring(6, 8) + "T" +
+        t.substring(8, 10) + ":" + t.substring(10, 12) + ":" + t.substring(12, 14) + "Z";
+}
+
+function getMimeType(contentType: string|null): string {
+    if (!contentType) return "unk";
+
+    let idx = contentType.indexOf(";");
+    if (idx !== -1) contentType = contentType.substring(0, idx);
+    return contentType.trim().toLowerCase() || "unk";
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * The WARC files use a SHA-1 encoded in base 32.
+ */
+function sha1Base32(data: Uint8Array): string {
+    const bytes = createHash("sha1").update(data).digest();
+
+    let result = "";
+    let buffer = 0;
+    let bitCount = 0;
+
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bitCount += 8;
+
+        while (bitCount >= 5) {
+            result += BASE32_ALPHABET[(buffer >>> (bitCount - 5)) & 31];
+            bitCount -= 5;
+        }
+    }
+
+    if (bitCount > 0) result += BASE32_ALPHABET[(buffer << (5 - bitCount)) & 31];
+    return result;
+}
+
+/**
+ * Returns the SURT form of an url, which is used to sort the CDX index.
+ * Ex: "https://www.example.com/Page?b=1" --> "com,example)/page?b=1".
+ */
+function toSurt(url: string): string {
+    const urlInfos = new URL(url);
+
+    let host = urlInfos.hostname.toLowerCase();
+    if (host.startsWith("www.")) host = host.substring(4);
+
+    let surt = host.split(".").reverse().join(",");
+    if (urlInfos.port) surt += ":" + urlInfos.port;
+
+    return surt + ")" + (urlInfos.pathname + urlInfos.search).toLowerCase();
+}
+
+function formatCdxLine(entry: WarcCdxEntry): string {
+    return [entry.urlKey, entry.timestamp, entry.originalUrl, entry.mimeType, entry.status, entry.digest,
+        entry.redirect, "-", entry.length, entry.offset, entry.fileName].join(" ");
+}
+
+function parseCdxLine(line: string): WarcCdxEntry|undefined {
+    const parts = line.split(" ");
+    if (parts.length !== 11) return undefined;
+
+    return {
+        urlKey: parts[0], timestamp: parts[1], originalUrl: parts[2], mimeType: parts[3],
+        status: parts[4], digest: parts[5], redirect: parts[6],
+        length: parseInt(parts[8]), offset: parseInt(parts[9]), fileName: parts[10]
+    };
+}
+
+async function readCdxLines(cdxPath: string): Promise<string[]> {
+    try {
+        const content = await fs.readFile(cdxPath, "utf-8");
+        return content.split("\n").filter(line => line && !line.startsWith(" CDX"));
+    }
+    catch {
+        return [];
+    }
+}